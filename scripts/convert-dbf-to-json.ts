@@ -297,11 +297,11 @@ if (import.meta.url === `file://${process.argv[1]}`) {
 }
 
 export {
-    convertDbfToJson,
     convertConfig,
-    convertWords,
+    convertDbfToJson,
+    convertPoemLines,
     convertSentenceStructures,
-    convertWorkingStructures,
     convertSpecialWords,
-    convertPoemLines,
+    convertWords,
+    convertWorkingStructures,
 }
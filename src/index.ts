@@ -1,26 +1,159 @@
+import { readFileSync } from 'node:fs'
+import type { Interface } from 'node:readline/promises'
+import { DataService } from '@/services/data-service'
+import { POEM_FORMS } from '@/services/form-planner'
+import { EDITABLE_LEXICONS, LexiconEditor } from '@/services/lexicon-editor'
 import { PoetryEngine } from '@/services/poetry-engine'
-import { WordSelector } from '@/services/word-selector'
-import type { PoeticStyle, PoetryGenerationOptions, RhymeScheme } from '@/types'
+import { RhymeChecker } from '@/services/rhyme-checker'
+import { NAMED_RHYME_PATTERNS, RHYME_SCHEMES } from '@/services/rhyme-planner'
+import { StructureInferrer } from '@/services/structure-inferrer'
+import { StructureLinter } from '@/services/structure-linter'
+import { parseStructureTemplate } from '@/services/structure-template'
+import { loadWordPack } from '@/services/word-pack'
+import { REQUIRED_WORD_TAGS, WordSelector } from '@/services/word-selector'
+import type {
+    AcrosticLine,
+    EditableLexiconName,
+    GeneratedPoem,
+    LexiconName,
+    LineTrace,
+    Logger,
+    ParallelStatus,
+    PartOfSpeech,
+    PoemForm,
+    PoemScore,
+    PoeticStyle,
+    PoetryGenerationOptions,
+    RequiredWord,
+    RequiredWordPlacement,
+    RhymeCheckLine,
+    RhymeCheckOptions,
+    RhymeCheckResult,
+    RhymePlan,
+    RhymeScheme,
+    RhymeStatus,
+    SentenceStructure,
+    WordFields,
+    WordRecord,
+} from '@/types'
 
 interface CliOptions {
     style?: string
+    styleFile?: string
     paragraphs?: number
     lines?: number
     rhyme?: boolean
     rhymeScheme?: string
+    rhymePattern?: string
+    rhymeChange?: boolean
+    vocabulary?: string
+    topics?: string[]
+    topicStrictness?: string
+    repeatCooldown?: number
+    avoidRecentPoems?: number
+    form?: string
+    couplet?: boolean
+    acrostic?: string
+    mustInclude?: string[]
     title?: string
     output?: string
     interactive?: boolean
+    seed?: number
+    explain?: boolean
+    bestOf?: number
+    json?: boolean
 }
 
-async function main(): Promise<void> {
-    const engine = new PoetryEngine()
+/** 词库的中文名称 */
+const LEXICON_LABELS: Record<LexiconName, string> = {
+    nouns: '名词库',
+    adjectives: '形容词库',
+    intransitiveVerbs: '不及物动词库',
+    transitiveVerbs: '及物动词库',
+    interjections: '叹词库',
+    specialWords: '特殊词库',
+}
+
+/** 词库命令中可用的词库名称：数据中的名称与原程序的库名 */
+const LEXICON_ALIASES: Record<string, EditableLexiconName> = {
+    nouns: 'nouns',
+    noun: 'nouns',
+    adjectives: 'adjectives',
+    adj: 'adjectives',
+    intransitiveVerbs: 'intransitiveVerbs',
+    verbi: 'intransitiveVerbs',
+    transitiveVerbs: 'transitiveVerbs',
+    verbt: 'transitiveVerbs',
+    interjections: 'interjections',
+    interj: 'interjections',
+}
+
+/** 韵脚约束状态的中文说明 */
+const RHYME_STATUS_LABELS: Record<RhymeStatus, string> = {
+    none: '',
+    applied: '，已押韵',
+    fallback: '，无押韵词可选（已回退）',
+}
 
-    // 显示版本信息
-    console.log(engine.getVersionInfo())
+/** --best-of 允许的最多候选诗歌数 */
+const MAX_BEST_OF = 100
 
-    // 获取命令行参数
+/** 输出 JSON 时使用的日志输出：进度信息与警告都输出到标准错误，以便其他程序读取标准输出 */
+const STDERR_LOGGER: Logger = {
+    info: (message) => console.error(message),
+    warn: (message) => console.error(message),
+}
+
+/** 对仗状态的说明 */
+const PARALLEL_STATUS_LABELS: Record<ParallelStatus, string> = {
+    matched: '，已对仗',
+    lengthOnly: '，仅字数对仗（无同属性名词）',
+    unmatched: '，无法对仗（无同字数词汇）',
+}
+
+async function main(): Promise<void> {
+    // 获取命令行参数；数据目录、状态目录与词汇包对所有命令有效，先从参数中取出
     const args = process.argv.slice(2)
+    const dataDir = takeGlobalOption(args, '--data-dir').pop()
+    const stateDir = takeGlobalOption(args, '--state-dir').pop()
+    const packs = takeGlobalOption(args, '--pack')
+
+    const data = DataService.fromDirectory(dataDir, stateDir)
+    for (const pack of packs) {
+        data.addWordPack(loadWordPack(pack))
+    }
+    const engine = new PoetryEngine({ data, logger: args.includes('--json') ? STDERR_LOGGER : console })
+
+    // 句型命令：node src/index.js structure <list|add|validate|lint> [模板...]
+    // 不显示版本信息，以便其他程序读取输出
+    if (args[0] === 'structure' || args[0] === '句型') {
+        runStructureCommand(engine, data, args.slice(1))
+        return
+    }
+
+    // 词库命令：node src/index.js lexicon <add|remove|edit|search|stats> [参数...]
+    if (args[0] === 'lexicon' || args[0] === '词库') {
+        runLexiconCommand(new LexiconEditor(data), args.slice(1))
+        return
+    }
+
+    // 押韵检查命令：node src/index.js check [文件] [选项]
+    if (args[0] === 'check' || args[0] === '押韵检查') {
+        runCheckCommand(new RhymeChecker(data), args.slice(1))
+        return
+    }
+
+    // 显示版本信息（输出 JSON 时不显示，以便其他程序读取输出）
+    if (!args.includes('--json')) {
+        console.log(engine.getVersionInfo())
+    }
+
+    // 对联命令：node src/index.js couplet [选项]
+    if (args[0] === 'couplet' || args[0] === '对联') {
+        await runCoupletMode(engine, parseArguments(args.slice(1)))
+        return
+    }
+
     const options = parseArguments(args)
 
     if (options.interactive || args.length === 0) {
@@ -30,6 +163,27 @@ async function main(): Promise<void> {
     }
 }
 
+/**
+ * 从参数中取出对所有命令有效的选项（可重复指定）
+ * @returns 按指定顺序排列的各个值
+ */
+function takeGlobalOption(args: string[], name: string): string[] {
+    const values: string[] = []
+    for (let index = args.indexOf(name); index !== -1; index = args.indexOf(name)) {
+        values.push(...args.splice(index, 2).slice(1))
+    }
+    return values
+}
+
+/**
+ * 严格解析整数参数：整个参数须为安全整数，「12abc」「1.5」、空白或缺少参数时为 NaN
+ * @param value 参数
+ */
+function parseInteger(value: string | undefined): number {
+    const number = value === undefined || value.trim() === '' ? Number.NaN : Number(value)
+    return Number.isSafeInteger(number) ? number : Number.NaN
+}
+
 /**
  * 解析命令行参数
  */
@@ -44,13 +198,16 @@ function parseArguments(args: string[]): CliOptions {
             case '-s':
                 options.style = args[++i]
                 break
+            case '--style-file':
+                options.styleFile = args[++i]
+                break
             case '--paragraphs':
             case '-p':
-                options.paragraphs = Number.parseInt(args[++i])
+                options.paragraphs = parseInteger(args[++i])
                 break
             case '--lines':
             case '-l':
-                options.lines = Number.parseInt(args[++i])
+                options.lines = parseInteger(args[++i])
                 break
             case '--rhyme':
             case '-r':
@@ -59,6 +216,40 @@ function parseArguments(args: string[]): CliOptions {
                     options.rhymeScheme = args[++i]
                 }
                 break
+            case '--rhyme-pattern':
+                options.rhymePattern = args[++i]
+                break
+            case '--rhyme-change':
+                options.rhymeChange = true
+                break
+            case '--vocabulary':
+                options.vocabulary = args[++i]
+                break
+            case '--topic':
+                options.topics = [...(options.topics ?? []), ...parseTopics(args[++i] ?? '')]
+                break
+            case '--topic-strictness':
+                options.topicStrictness = args[++i]
+                break
+            case '--repeat-cooldown':
+                options.repeatCooldown = parseInteger(args[++i])
+                break
+            case '--avoid-recent':
+                options.avoidRecentPoems = parseInteger(args[++i])
+                break
+            case '--form':
+            case '-f':
+                options.form = args[++i]
+                break
+            case '--couplet':
+                options.couplet = true
+                break
+            case '--acrostic':
+                options.acrostic = args[++i]
+                break
+            case '--include':
+                options.mustInclude = [...(options.mustInclude ?? []), ...parseTopics(args[++i] ?? '')]
+                break
             case '--title':
             case '-t':
                 options.title = args[++i]
@@ -71,6 +262,18 @@ function parseArguments(args: string[]): CliOptions {
             case '-i':
                 options.interactive = true
                 break
+            case '--seed':
+                options.seed = parseInteger(args[++i])
+                break
+            case '--explain':
+                options.explain = true
+                break
+            case '--best-of':
+                options.bestOf = parseInteger(args[++i])
+                break
+            case '--json':
+                options.json = true
+                break
             case '--help':
             case '-h':
                 showHelp()
@@ -82,6 +285,45 @@ function parseArguments(args: string[]): CliOptions {
     return options
 }
 
+/**
+ * 解析主题列表，支持逗号或顿号分隔
+ */
+function parseTopics(input: string): string[] {
+    return input
+        .split(/[,，、]/)
+        .map((topic) => topic.trim())
+        .filter((topic) => topic !== '')
+}
+
+/**
+ * 解析必用词，可用「词:词性」指定词性，如 旷野:MM
+ * @returns 必用词，词性无效时返回 null
+ */
+function parseRequiredWord(input: string): RequiredWord | null {
+    const [word, tag] = input.split(/[:：]/).map((part) => part.trim())
+    if (tag === undefined) {
+        return { word }
+    }
+    const partOfSpeech = tag.toUpperCase() as PartOfSpeech
+    return word && REQUIRED_WORD_TAGS.includes(partOfSpeech) ? { word, partOfSpeech } : null
+}
+
+/**
+ * 判断是否为内置的诗体
+ */
+function isPoemForm(form: string): form is PoemForm {
+    return form in POEM_FORMS
+}
+
+/**
+ * 格式化诗体列表，如：wujue(五言绝句)、qijue(七言绝句)
+ */
+function formatFormList(): string {
+    return Object.entries(POEM_FORMS)
+        .map(([form, definition]) => `${form}(${definition.name})`)
+        .join('、')
+}
+
 /**
  * 显示帮助信息
  */
@@ -90,27 +332,208 @@ function showHelp(): void {
 计算机诗人火鸟 - 使用说明
 
 用法: node src/index.js [选项]
+      node src/index.js couplet [选项]   作一副对联（上下联共用句型，逐词对仗）
+      node src/index.js structure list   列出句型库中的句型模板
+      node src/index.js structure add <模板>...      在句型库中添加句型
+      node src/index.js structure validate <模板>... 检查句型模板是否有效
+      node src/index.js structure lint [--json]      检查句型库与工作结构数据，有错误时以状态码 1 退出
+      node src/index.js structure infer <例句>... [--add]  由例句推断句型（按词库分词），--add 添加到句型库
+      node src/index.js structure grammar  输出由句型库转换而来的文法（JSON）
+      node src/index.js check [文件] [--rhyme-pattern <格式>] [--rhyme <韵脚>] [--json]
+                                 检查诗歌的押韵（未指定文件时读取标准输入），给出替换建议
+      node src/index.js lexicon add <词库> <词> --vowel <韵母> [--property <属性>] [--class <类别>] [--frequency <0-5>]
+      node src/index.js lexicon remove|edit <词库> <词> [字段...]   删除或修改词库中的词
+      node src/index.js lexicon search <文字> [--lexicon <词库>] [--vowel <韵母>] [--json]
+      node src/index.js lexicon stats [--json]   统计各词库的词数
 
 选项:
   -s, --style <风格>        诗歌风格: quiet(宁静) 或 bold(奔放)，默认：bold
+      --style-file <路径>   从 JSON 文件载入风格配置（覆盖 --style）
   -p, --paragraphs <数量>   段数，默认：1
   -l, --lines <数量>        每段行数，默认：4
-  -r, --rhyme [韵脚]        启用押韵，可选择指定韵脚
-  -t, --title <标题>        诗歌标题
+  -r, --rhyme [韵脚]        启用押韵，可选择指定韵脚（不指定时自动选择）
+      --rhyme-pattern <格式> 段内押韵格式（启用押韵）：${NAMED_RHYME_PATTERNS.join('、')} 或自定义字母如 ABAC
+      --rhyme-change        每段换韵（启用押韵），各段韵脚自动选择
+      --vocabulary <倾向>   用词倾向: basic(朴素) 或 literary(华丽)，默认不偏向
+      --topic <主题>        主题（名词类别，如 天文、宗教），可用逗号分隔或重复指定
+      --topic-strictness <强度> 主题约束强度: prefer(偏好) 或 strict(只用主题名词)，默认：prefer
+      --repeat-cooldown <行数> 同一词汇在多少行之内不重复，0 表示不限制，默认：全诗不重复
+      --avoid-recent <篇数>  回避最近存档的若干首诗中用过的词汇，默认：0
+  -f, --form <诗体>         格律诗体，每行字数固定（忽略段数与行数）：
+                            ${formatFormList()}
+      --couplet             对仗：每段中相邻两行共用句型，逐词对仗（词性、字数、名词属性相同）
+      --acrostic <文字>     藏头诗：各字依次藏于各行句首，未指定行数时行数与字数相同
+      --include <词>        必须出现在诗中的词，可用逗号分隔或重复指定，可用「词:词性」指定词性
+                            （词性：${REQUIRED_WORD_TAGS.join('、')}）
+  -t, --title <标题>        诗歌标题，auto 表示根据诗中的名词自动拟题，默认：无题
   -o, --output <路径>       输出文件路径
   -i, --interactive         交互模式
+      --seed <种子>         随机种子（整数），相同种子与选项生成相同的诗歌
+      --explain             在每行诗句下显示句型与选词的来源
+      --best-of <数量>      生成多首候选诗歌，取得分最高的一首（1-100），默认：1
+      --json                以 JSON 输出诗歌与评分（进度信息输出到标准错误）
+      --data-dir <目录>     数据目录（词库、句型等 JSON 文件），对所有命令有效，
+                            默认取环境变量 CYBERPOET_DATA_DIR，再默认为内置的 src/data
+      --state-dir <目录>    诗歌编号与存档用词记录所在的目录，对所有命令有效，
+                            默认取环境变量 CYBERPOET_STATE_DIR，再默认为程序所在的项目目录
+      --pack <路径>         叠加在词库之上的词汇包（目录或 JSON 文件），对所有命令有效，
+                            可重复指定，同一个词以后指定的为准
   -h, --help               显示此帮助信息
 
 韵脚选项:
-  a, ai, an, ang, ao, e, ei, en, eng, er, i, ie, ong, ou, r, u, v
+  ${RHYME_SCHEMES.join(', ')}
 
 示例:
   node src/index.js -s quiet -p 2 -l 4 -r a -t "春日诗"
   node src/index.js --interactive
   node src/index.js -s bold -p 1 -l 6 -o ./poems/
+  node src/index.js -s quiet -l 4 --seed 20020404
+  node src/index.js -p 3 -l 4 -r ang --rhyme-pattern ABCB --rhyme-change
+  node src/index.js -l 6 --topic 天文,宗教 --topic-strictness strict
+  node src/index.js --form qijue -r
+  node src/index.js -p 2 -l 4 --couplet
+  node src/index.js --acrostic 春夏秋冬 --form wujue
+  node src/index.js -p 2 --include 月亮,旷野:MM
+  node src/index.js -l 6 --title auto
+  node src/index.js -r --best-of 5 --json
+  node src/index.js --style-file ./my-style.json
+  node src/index.js --data-dir ./my-data -l 6
+  node src/index.js --state-dir ~/.cyberpoet -o ./poems/
+  node src/index.js --pack ./packs/team --pack ./packs/local.json --explain
+  node src/index.js couplet -s quiet --explain
+  node src/index.js structure add "TT，XA的MM被DJ得DD！{rhyme:E}"
+  node src/index.js lexicon add noun 量子纠缠 --vowel an --property - --class 天文
+  node src/index.js lexicon add verbi 骑/骆驼 --vowel e --property -
+
+句型模板:
+  词性标记（MM、XA、DJ 等两个字母）与其他文字逐字组成，句尾的标点即为句型的标点；
+  末尾可用花括号注明 rhyme（限制韵脚）、need（内部需求 0-2）、cs（复合结构数）、punct（标点）
 `)
 }
 
+/**
+ * 格式化单行诗句的生成轨迹
+ */
+function formatLineTrace(lineTrace: LineTrace): string[] {
+    const elements = [...lineTrace.structure.elements, lineTrace.structure.punctuation].filter(
+        (element) => element !== ''
+    )
+    const prefix = lineTrace.structure.prefix ? `（句首加「${lineTrace.structure.prefix}」）` : ''
+    const source = lineTrace.structureIndex === -1 ? '（由文法生成）' : ` #${lineTrace.structureIndex}`
+    const output = [`    └ 句型${source}：${elements.join(' ')}${prefix}`]
+
+    for (const slot of lineTrace.slots) {
+        const { selection } = slot
+        const record = selection.record
+            ? `「${selection.record.word}」（韵母：${selection.record.vowel || '无'}${selection.record.pack ? `，词汇包：${selection.record.pack}` : ''}）`
+            : '（无可选词汇）'
+        output.push(
+            `      [${slot.elementIndex + 1}] ${slot.tag} → ${slot.partOfSpeech}：${LEXICON_LABELS[selection.lexicon]}${record}${RHYME_STATUS_LABELS[selection.rhymeStatus]}${selection.repeated ? '，候选词已用尽而重复' : ''}${selection.parallelStatus ? PARALLEL_STATUS_LABELS[selection.parallelStatus] : ''}${lineTrace.structure.requiredWords?.[slot.elementIndex] ? '，必用词' : ''}`
+        )
+    }
+
+    return output
+}
+
+/**
+ * 格式化押韵方案，如：押韵格式：ABCB（全诗 B=ang）
+ */
+function formatRhymePlan(plan: RhymePlan): string {
+    const formatRhymes = (rhymes: Record<string, RhymeScheme>): string =>
+        Object.entries(rhymes)
+            .map(([letter, rhyme]) => `${letter}=${rhyme}`)
+            .join('、') || '无'
+
+    const [firstRhymes] = plan.stanzaRhymes
+    const unchanged = plan.stanzaRhymes.every((rhymes) => rhymes === firstRhymes)
+    const description = unchanged
+        ? `全诗 ${formatRhymes(firstRhymes)}`
+        : plan.stanzaRhymes.map((rhymes, index) => `第${index + 1}段 ${formatRhymes(rhymes)}`).join('；')
+
+    return `押韵格式：${plan.pattern}（${description}）`
+}
+
+/**
+ * 格式化藏头结果，如：藏头：春 夏 秋（句首加字） 冬
+ */
+function formatAcrostic(acrostic: AcrosticLine[]): string {
+    return `藏头：${acrostic.map((item) => (item.exact ? item.character : `${item.character}（句首加字）`)).join(' ')}`
+}
+
+/**
+ * 格式化必用词的安排结果，如：必用词：月亮（第2行） 旷野（未能安排：没有可以填入的词槽）
+ */
+function formatRequiredWords(placements: RequiredWordPlacement[]): string {
+    const items = placements.map(({ word, lineIndex, reason }) =>
+        lineIndex === undefined ? `${word}（未能安排：${reason}）` : `${word}（第${lineIndex + 1}行）`
+    )
+    return `必用词：${items.join(' ')}`
+}
+
+/**
+ * 在控制台中打印诗句
+ */
+function printPoemLines(poem: GeneratedPoem): void {
+    console.log('=====================================')
+
+    poem.lines.forEach((line, index) => {
+        console.log(`  ${(index + 1).toString().padStart(2)}. ${line}`)
+    })
+
+    console.log('=====================================')
+}
+
+/**
+ * 交互式修改诗歌：重写某一行或替换某个词，直到不再修改为止
+ */
+async function reviseInteractively(
+    rl: Interface,
+    engine: PoetryEngine,
+    initialPoem: GeneratedPoem
+): Promise<GeneratedPoem> {
+    let poem = initialPoem
+    let revising = true
+
+    while (revising) {
+        const choice = await rl.question('\n要修改一下吗？[L 重写某一行 / W 换掉某个词 / 直接回车不修改]: ')
+
+        switch (choice.trim().toUpperCase()) {
+            case 'L': {
+                const lineInput = await rl.question(`重写第几行（1-${poem.lines.length}）？: `)
+                try {
+                    poem = engine.regenerateLine(poem, parseInteger(lineInput) - 1)
+                    printPoemLines(poem)
+                } catch (error) {
+                    console.error('重写失败：', error instanceof Error ? error.message : error)
+                }
+                break
+            }
+            case 'W': {
+                const lineInput = await rl.question(`换第几行的词（1-${poem.lines.length}）？: `)
+                const lineIndex = parseInteger(lineInput) - 1
+                const slots = poem.trace?.[lineIndex]?.slots ?? []
+
+                slots.forEach((slot, index) => {
+                    console.log(`  ${index + 1}. ${slot.selection.text}（${slot.partOfSpeech}）`)
+                })
+
+                const slotInput = await rl.question('换第几个词？: ')
+                try {
+                    poem = engine.regenerateSlot(poem, lineIndex, parseInteger(slotInput) - 1)
+                    printPoemLines(poem)
+                } catch (error) {
+                    console.error('换词失败：', error instanceof Error ? error.message : error)
+                }
+                break
+            }
+            default:
+                revising = false
+        }
+    }
+
+    return poem
+}
+
 /**
  * 交互模式
  */
@@ -150,14 +573,37 @@ async function runInteractiveMode(engine: PoetryEngine): Promise<void> {
             const useRhyme = rhymeInput.toUpperCase() === 'Y'
 
             let rhymeScheme: RhymeScheme | undefined
+            let rhymePattern: string | undefined
+            let rhymeChange = false
             if (useRhyme) {
-                console.log('请输入韵脚(v代表ü, r代表知、吃、诗、日的韵母, z代表资、雌、思的韵母)')
+                console.log('请输入韵脚(v代表ü, r代表知、吃、诗、日的韵母, z代表资、雌、思的韵母，直接回车由我来选)')
                 const rhymeInput = await rl.question(
                     '[选择以下之一：a, ai, an, ang, ao, e(o,uo), ei(ui), en(in,un,vn), eng(ing), er, i, ie(ve), ong, ou(iu), r(z), u, v]: '
                 )
-                rhymeScheme = WordSelector.normalizeRhymeScheme(rhymeInput)
+                rhymeScheme = WordSelector.normalizeRhymeScheme(rhymeInput) || undefined
+
+                const patternInput = await rl.question(
+                    `押韵格式呢（${NAMED_RHYME_PATTERNS.join('、')} 或自定义字母如 ABAC，直接回车用老规矩）？: `
+                )
+                rhymePattern = patternInput.trim() || undefined
+
+                if (paragraphs > 1) {
+                    const changeInput = await rl.question('每段换一个韵吗 [Y/N]？: ')
+                    rhymeChange = changeInput.toUpperCase() === 'Y'
+                }
             }
 
+            // 获取主题
+            const topicInput = await rl.question('想写什么主题（如 天文、宗教，直接回车不限主题）？: ')
+            const availableTopics = engine.getAvailableTopics()
+            const topics = parseTopics(topicInput).filter((topic) => {
+                if (availableTopics.includes(topic)) {
+                    return true
+                }
+                console.log(`我不熟悉「${topic}」这个主题，就不管它了。`)
+                return false
+            })
+
             // 生成选项
             const options: PoetryGenerationOptions = {
                 style,
@@ -165,26 +611,34 @@ async function runInteractiveMode(engine: PoetryEngine): Promise<void> {
                 linesPerParagraph: lines,
                 useRhyme,
                 rhymeScheme,
+                rhymePattern,
+                rhymeChange,
+                topics: topics.length > 0 ? topics : undefined,
+                // 记录生成轨迹，以便重写单行或单个词
+                explain: true,
             }
 
             console.log('\n正在生成诗歌，请稍候...')
 
             try {
-                const poem = engine.generatePoetry(options)
+                const generatedPoem = engine.generatePoetry(options)
 
                 console.log('\n诗已全部写完了，请欣赏吧！')
-                console.log('=====================================')
-
-                for (const line of poem.lines) {
-                    console.log(`  ${line}`)
+                printPoemLines(generatedPoem)
+                if (generatedPoem.rhymePlan) {
+                    console.log(`（${formatRhymePlan(generatedPoem.rhymePlan)}）`)
                 }
+                console.log(`（随机种子：${generatedPoem.seed}）`)
 
-                console.log('=====================================')
+                // 不够满意的地方可以先局部修改
+                const poem = await reviseInteractively(rl, engine, generatedPoem)
 
                 // 询问是否满意
                 const satisfiedInput = await rl.question('\n满意吗？[Y/N]: ')
                 if (satisfiedInput.toUpperCase() === 'Y') {
-                    const title = await rl.question('请赐题：')
+                    const suggestedTitle = engine.generateTitle(poem)
+                    const title =
+                        (await rl.question(`请赐题（直接回车即用「${suggestedTitle}」）：`)).trim() || suggestedTitle
 
                     // 询问保存方式
                     const saveChoice = await rl.question('保存到文件吗？[Y/N]（N为仅显示内容）: ')
@@ -226,21 +680,142 @@ async function runInteractiveMode(engine: PoetryEngine): Promise<void> {
 }
 
 /**
- * 命令行模式
+ * 校验命令行参数并转换为生成选项，参数无效时退出程序
  */
-async function runCommandMode(engine: PoetryEngine, options: CliOptions): Promise<void> {
-    const style: PoeticStyle = options.style === 'quiet' ? 'quiet' : 'bold'
-    const paragraphs = options.paragraphs || 1
-    const lines = options.lines || 4
-    const useRhyme = options.rhyme || false
-    const rhymeScheme = options.rhymeScheme ? WordSelector.normalizeRhymeScheme(options.rhymeScheme) : undefined
+function buildGenerationOptions(engine: PoetryEngine, options: CliOptions): PoetryGenerationOptions {
+    let style: PoeticStyle = options.style === 'quiet' ? 'quiet' : 'bold'
+    if (options.styleFile) {
+        try {
+            style = engine.loadStyleProfile(options.styleFile)
+        } catch (error) {
+            console.error((error as Error).message)
+            process.exit(1)
+        }
+    }
+    // 命令行未指定押韵时，沿用风格配置中的押韵设置
+    const rhymeDefaults = engine.getStyleProfile(style).rhyme ?? {}
+
+    if (options.paragraphs !== undefined && !(options.paragraphs >= 1)) {
+        console.error('段落数必须是正整数')
+        process.exit(1)
+    }
 
-    const generationOptions: PoetryGenerationOptions = {
+    if (options.lines !== undefined && !(options.lines >= 1)) {
+        console.error('每段行数必须是正整数')
+        process.exit(1)
+    }
+
+    const paragraphs = options.paragraphs ?? 1
+    const acrosticLength = options.acrostic ? PoetryEngine.getAcrosticCharacters(options.acrostic).length : 0
+    // 藏头诗未指定行数时，按藏头字数平均分到各段
+    const lines = options.lines ?? (acrosticLength > 0 ? Math.ceil(acrosticLength / paragraphs) : 4)
+    const useRhyme =
+        options.rhyme || options.rhymePattern !== undefined || options.rhymeChange || rhymeDefaults.enabled || false
+    const rhymeScheme = options.rhymeScheme
+        ? WordSelector.normalizeRhymeScheme(options.rhymeScheme)
+        : rhymeDefaults.scheme
+
+    if (options.seed !== undefined && Number.isNaN(options.seed)) {
+        console.error('随机种子必须是整数')
+        process.exit(1)
+    }
+
+    if (options.vocabulary !== undefined && options.vocabulary !== 'basic' && options.vocabulary !== 'literary') {
+        console.error('用词倾向只能是 basic 或 literary')
+        process.exit(1)
+    }
+
+    if (
+        options.topicStrictness !== undefined &&
+        options.topicStrictness !== 'prefer' &&
+        options.topicStrictness !== 'strict'
+    ) {
+        console.error('主题约束强度只能是 prefer 或 strict')
+        process.exit(1)
+    }
+
+    if (options.form !== undefined && !isPoemForm(options.form)) {
+        console.error(`未知的诗体：${options.form}，可用的诗体：${formatFormList()}`)
+        process.exit(1)
+    }
+
+    if (options.acrostic !== undefined && acrosticLength === 0) {
+        console.error('藏头文字不能为空')
+        process.exit(1)
+    }
+
+    const lineCount = options.form && isPoemForm(options.form) ? POEM_FORMS[options.form].lineCount : paragraphs * lines
+    if (acrosticLength > lineCount) {
+        console.error(`藏头文字有${acrosticLength}个字，超过了诗的行数（${lineCount}行）`)
+        process.exit(1)
+    }
+
+    const mustInclude = (options.mustInclude ?? []).map((input) => {
+        const requiredWord = parseRequiredWord(input)
+        if (!requiredWord) {
+            console.error(`无效的必用词：${input}，词性只能是 ${REQUIRED_WORD_TAGS.join('、')}`)
+            process.exit(1)
+        }
+        return requiredWord
+    })
+
+    if (options.repeatCooldown !== undefined && !(options.repeatCooldown >= 0)) {
+        console.error('不重复的行数必须是非负整数')
+        process.exit(1)
+    }
+
+    if (options.bestOf !== undefined && !(options.bestOf >= 1 && options.bestOf <= MAX_BEST_OF)) {
+        console.error(`候选诗歌的数量必须是 1 到 ${MAX_BEST_OF} 之间的整数`)
+        process.exit(1)
+    }
+
+    if (options.avoidRecentPoems !== undefined && !(options.avoidRecentPoems >= 0)) {
+        console.error('回避的存档诗歌篇数必须是非负整数')
+        process.exit(1)
+    }
+
+    const availableTopics = engine.getAvailableTopics()
+    const unknownTopics = (options.topics ?? []).filter((topic) => !availableTopics.includes(topic))
+    if (unknownTopics.length > 0) {
+        console.error(`未知的主题：${unknownTopics.join('、')}`)
+        console.error(`可用的主题：${availableTopics.join('、')}`)
+        process.exit(1)
+    }
+
+    return {
         style,
         paragraphCount: paragraphs,
         linesPerParagraph: lines,
         useRhyme,
         rhymeScheme,
+        rhymePattern: options.rhymePattern ?? rhymeDefaults.pattern,
+        rhymeChange: options.rhymeChange ?? rhymeDefaults.change,
+        vocabulary: options.vocabulary,
+        topics: options.topics,
+        topicStrictness: options.topicStrictness,
+        repeatCooldown: options.repeatCooldown,
+        avoidRecentPoems: options.avoidRecentPoems,
+        form: options.form,
+        couplet: options.couplet,
+        acrostic: options.acrostic,
+        mustInclude: mustInclude.length > 0 ? mustInclude : undefined,
+        seed: options.seed,
+        explain: options.explain,
+        bestOf: options.bestOf,
+        // 只在显示评分时评分（选出候选诗歌时引擎总会评分）
+        score: options.json || options.explain,
+    }
+}
+
+/**
+ * 命令行模式
+ */
+async function runCommandMode(engine: PoetryEngine, options: CliOptions): Promise<void> {
+    const generationOptions = buildGenerationOptions(engine, options)
+
+    if (options.json) {
+        await runJsonMode(engine, options, generationOptions)
+        return
     }
 
     try {
@@ -250,15 +825,31 @@ async function runCommandMode(engine: PoetryEngine, options: CliOptions): Promis
         console.log('\n生成的诗歌：')
         console.log('=====================================')
 
-        for (const line of poem.lines) {
+        poem.lines.forEach((line, index) => {
             console.log(`  ${line}`)
-        }
+            if (poem.trace) {
+                console.log(formatLineTrace(poem.trace[index]).join('\n'))
+            }
+        })
 
         console.log('=====================================')
+        if (poem.rhymePlan) {
+            console.log(formatRhymePlan(poem.rhymePlan))
+        }
+        if (poem.acrostic) {
+            console.log(formatAcrostic(poem.acrostic))
+        }
+        if (poem.requiredWords) {
+            console.log(formatRequiredWords(poem.requiredWords))
+        }
+        console.log(`随机种子：${poem.seed}`)
+        if (poem.score) {
+            console.log(formatScore(poem.score, options.explain ?? false))
+        }
 
         // 如果指定了标题或输出路径，保存诗歌
         if (options.title || options.output) {
-            const title = options.title || '无题'
+            const title = options.title === 'auto' ? engine.generateTitle(poem) : options.title || '无题'
 
             if (options.output) {
                 // 确保输出目录存在
@@ -281,6 +872,457 @@ async function runCommandMode(engine: PoetryEngine, options: CliOptions): Promis
     }
 }
 
+/**
+ * 以 JSON 输出诗歌（含评分与各候选的得分），引擎的进度信息由日志输出写到标准错误
+ */
+async function runJsonMode(
+    engine: PoetryEngine,
+    options: CliOptions,
+    generationOptions: PoetryGenerationOptions
+): Promise<void> {
+    try {
+        const poem = engine.generatePoetry(generationOptions)
+        const title = options.title === 'auto' ? engine.generateTitle(poem) : options.title
+        if (options.output) {
+            const { existsSync, mkdirSync } = await import('node:fs')
+            if (!existsSync(options.output)) {
+                mkdirSync(options.output, { recursive: true })
+            }
+            console.error(`诗歌已保存到：${await engine.savePoetry(poem, title || '无题', options.output)}`)
+        }
+        console.log(JSON.stringify({ ...poem, title }, null, 2))
+    } catch (error) {
+        console.error('生成诗歌时出错：', error)
+        process.exit(1)
+    }
+}
+
+/**
+ * 格式化诗歌评分
+ * @param detailed 是否列出扣分的原因
+ */
+function formatScore(score: PoemScore, detailed: boolean): string {
+    const { rhyme, repetition, lengthVariance, interjection, leftover } = score.breakdown
+    const parts = [
+        `押韵 ${rhyme.toFixed(2)}`,
+        `用词不重复 ${repetition.toFixed(2)}`,
+        `句长 ${lengthVariance.toFixed(2)}`,
+        `叹词 ${interjection.toFixed(2)}`,
+        `无残留 ${leftover.toFixed(2)}`,
+    ]
+    const output = [`得分：${score.total}（${parts.join('，')}）`]
+    if (detailed) {
+        output.push(...score.issues.map((issue) => `  - ${issue}`))
+    }
+    return output.join('\n')
+}
+
+/**
+ * 格式化句型结构的各字段
+ */
+function formatStructure(structure: SentenceStructure): string {
+    return `元素 ${structure.elements.length} 个，标点「${structure.punctuation}」，限制韵脚「${structure.limitedRhyme}」，复合结构数 ${structure.compoundStructureCount}，内部需求 ${structure.internalNeed}`
+}
+
+/**
+ * 句型命令：列出、添加或检查句型模板
+ */
+function runStructureCommand(engine: PoetryEngine, data: DataService, args: string[]): void {
+    const [action, ...templates] = args
+
+    if (action === 'lint') {
+        runStructureLint(new StructureLinter(data), templates.includes('--json'))
+        return
+    }
+
+    if (action === 'infer' && templates.length > 0) {
+        runStructureInfer(
+            engine,
+            new StructureInferrer(data),
+            templates.filter((arg) => arg !== '--add'),
+            templates.includes('--add')
+        )
+        return
+    }
+
+    if (action === 'grammar') {
+        console.log(JSON.stringify(engine.getLibraryGrammar(), null, 2))
+        return
+    }
+
+    if (action === 'list') {
+        engine.getStructureTemplates().forEach((template, index) => {
+            console.log(`  #${index}  ${template}`)
+        })
+        return
+    }
+
+    if ((action !== 'add' && action !== 'validate') || templates.length === 0) {
+        console.error(
+            '用法: node src/index.js structure list | add <模板>... | validate <模板>... | infer <例句>... [--add] | lint [--json] | grammar'
+        )
+        process.exit(1)
+    }
+
+    // 先检查全部模板，有无效的模板时不添加任何句型
+    let valid = true
+    for (const template of templates) {
+        try {
+            const structure = parseStructureTemplate(template)
+            console.log(`  ✓ ${template}（${formatStructure(structure)}）`)
+        } catch (error) {
+            console.error(`  ✗ ${error instanceof Error ? error.message : error}`)
+            valid = false
+        }
+    }
+    if (!valid) {
+        process.exit(1)
+    }
+
+    if (action === 'add') {
+        try {
+            for (const template of templates) {
+                console.log(`已添加句型 #${engine.addStructureTemplate(template)}：${template}`)
+            }
+        } catch (error) {
+            console.error('添加句型时出错：', error)
+            process.exit(1)
+        }
+    }
+}
+
+/** 押韵检查结果的标记 */
+const RHYME_CHECK_MARKS: Record<RhymeCheckLine['status'], string> = {
+    rhymed: '✓',
+    broken: '✗',
+    unrhymed: '·',
+    unknown: '?',
+}
+
+/**
+ * 押韵检查命令：检查文件或标准输入中的诗歌，有不押韵的行时以状态码 1 退出
+ */
+function runCheckCommand(checker: RhymeChecker, args: string[]): void {
+    const options: RhymeCheckOptions = {}
+    let file: string | undefined
+    let json = false
+    let unknownOption: string | undefined
+    for (let i = 0; i < args.length; i++) {
+        switch (args[i]) {
+            case '--rhyme-pattern':
+                options.pattern = args[++i]
+                break
+            case '--rhyme':
+            case '-r':
+                options.rhymeScheme = WordSelector.normalizeRhymeScheme(args[++i] ?? '')
+                break
+            case '--json':
+                json = true
+                break
+            default:
+                if (args[i].startsWith('-')) {
+                    unknownOption ??= args[i]
+                } else {
+                    file = args[i]
+                }
+        }
+    }
+
+    if (unknownOption || (!file && process.stdin.isTTY)) {
+        if (unknownOption) {
+            console.error(`未知选项：${unknownOption}`)
+        }
+        console.error('用法: node src/index.js check [文件] [--rhyme-pattern <格式>] [--rhyme <韵脚>] [--json]')
+        console.error('未指定文件时从标准输入读取诗歌，段落之间以空行分隔')
+        process.exit(1)
+    }
+
+    let result: RhymeCheckResult
+    try {
+        result = checker.check(readFileSync(file ?? 0, 'utf-8'), options)
+    } catch (error) {
+        console.error('押韵检查时出错：', error instanceof Error ? error.message : error)
+        process.exit(1)
+    }
+
+    const broken = result.lines.filter((line) => line.status === 'broken').length
+    if (json) {
+        console.log(JSON.stringify(result, null, 2))
+    } else {
+        result.stanzaRhymes.forEach((rhymes, stanzaIndex) => {
+            const letters = Object.entries(rhymes).map(([letter, rhyme]) => `${letter}=${rhyme}`)
+            console.log(`第${stanzaIndex + 1}段${letters.length > 0 ? `（${letters.join('，')}）` : ''}`)
+            for (const line of result.lines.filter((item) => item.stanzaIndex === stanzaIndex)) {
+                console.log(
+                    `  ${RHYME_CHECK_MARKS[line.status]} ${line.lineIndex + 1} ${line.letter} ${formatRhymeCheckLine(line)}`
+                )
+            }
+        })
+        console.log(`共 ${result.lines.length} 行，${broken} 行不押韵`)
+    }
+
+    if (broken > 0) {
+        process.exit(1)
+    }
+}
+
+/**
+ * 格式化押韵检查中一行的结果
+ */
+function formatRhymeCheckLine(line: RhymeCheckLine): string {
+    if (!line.word) {
+        return `${line.line} → 句末词不在词库中`
+    }
+    const particle = line.particle ? `（跳过「${line.particle}」）` : ''
+    const ending = `${line.line} → ${line.word}（${line.vowels.join('/') || '无韵母'}）${particle}`
+    if (line.status !== 'broken') {
+        return ending
+    }
+    const suggestions = line.suggestions.length > 0 ? `，可换：${line.suggestions.join('、')}` : ''
+    return `${ending}，应押 ${line.expectedRhyme} 韵${suggestions}`
+}
+
+/**
+ * 由例句推断句型并显示分词结果，有无法推断的例句时以状态码 1 退出
+ * @param add 是否把推断的句型添加到句型库
+ */
+function runStructureInfer(engine: PoetryEngine, inferrer: StructureInferrer, sentences: string[], add: boolean): void {
+    const templates: string[] = []
+    for (const sentence of sentences) {
+        try {
+            const { segments, structure, template } = inferrer.infer(sentence)
+            const words = segments.map((segment) =>
+                segment.partOfSpeech ? `${segment.text}/${segment.partOfSpeech}` : segment.text
+            )
+            console.log(`  ✓ ${sentence}`)
+            console.log(`    分词：${words.join(' ')}`)
+            console.log(`    模板：${template}（${formatStructure(structure)}）`)
+            templates.push(template)
+        } catch (error) {
+            console.error(`  ✗ ${error instanceof Error ? error.message : error}`)
+        }
+    }
+    if (templates.length < sentences.length) {
+        process.exit(1)
+    }
+
+    if (add) {
+        try {
+            for (const template of templates) {
+                console.log(`已添加句型 #${engine.addStructureTemplate(template)}：${template}`)
+            }
+        } catch (error) {
+            console.error('添加句型时出错：', error)
+            process.exit(1)
+        }
+    }
+}
+
+/**
+ * 检查句型库与工作结构数据，有错误时以状态码 1 退出
+ * @param json 是否输出 JSON（供其他程序读取）
+ */
+function runStructureLint(linter: StructureLinter, json: boolean): void {
+    const issues = linter.lint()
+    const errors = issues.filter((issue) => issue.severity === 'error').length
+    const warnings = issues.length - errors
+
+    if (json) {
+        console.log(JSON.stringify({ errors, warnings, issues }, null, 2))
+    } else {
+        for (const issue of issues) {
+            const position = issue.elementIndex !== undefined ? ` [${issue.elementIndex + 1}]` : ''
+            console.log(`${issue.file} #${issue.index}${position} ${issue.severity} ${issue.code}：${issue.message}`)
+        }
+        console.log(`共 ${errors} 个错误，${warnings} 个提示`)
+    }
+
+    if (errors > 0) {
+        process.exit(1)
+    }
+}
+
+/**
+ * 词库命令：添加、删除、修改词条，查找词汇，统计词库
+ */
+function runLexiconCommand(editor: LexiconEditor, args: string[]): void {
+    const [action, ...rest] = args
+    const positionals: string[] = []
+    const fields: WordFields = {}
+    const lexiconNames: string[] = []
+    let json = false
+    for (let i = 0; i < rest.length; i++) {
+        switch (rest[i]) {
+            case '--word':
+                fields.word = rest[++i]
+                break
+            case '--vowel':
+                fields.vowel = rest[++i]
+                break
+            case '--property':
+                fields.property = rest[++i] === '-' ? '' : rest[i]
+                break
+            case '--class':
+                fields.class = rest[++i]
+                break
+            case '--liberty':
+                fields.liberty = rest[++i]
+                break
+            case '--frequency':
+                fields.frequency = rest[++i] === '-' ? null : Number(rest[i])
+                break
+            case '--lexicon':
+                lexiconNames.push(rest[++i])
+                break
+            case '--json':
+                json = true
+                break
+            default:
+                positionals.push(rest[i])
+        }
+    }
+
+    const [name, word] = positionals
+    const needsWord = action === 'add' || action === 'remove' || action === 'edit'
+    if (!['add', 'remove', 'edit', 'search', 'stats'].includes(action) || (needsWord && !word)) {
+        console.error(
+            `用法: node src/index.js lexicon add <词库> <词> --vowel <韵母> [--property <属性>] [--class <类别>] [--liberty <自由度>] [--frequency <0-5>]
+      node src/index.js lexicon remove <词库> <词>
+      node src/index.js lexicon edit <词库> <词> [--word <新词>] [--vowel <韵母>] [--property <属性>] ...
+      node src/index.js lexicon search <文字> [--lexicon <词库>] [--vowel <韵母>] [--json]
+      node src/index.js lexicon stats [--json]
+词库: ${EDITABLE_LEXICONS.join('、')}（也可用原程序的库名 noun、adj、verbi、verbt、interj）`
+        )
+        process.exit(1)
+    }
+
+    try {
+        switch (action) {
+            case 'add': {
+                const lexicon = parseLexiconName(name)
+                const record = editor.add(lexicon, { ...fields, word })
+                console.log(`已将该词加入${LEXICON_LABELS[lexicon]}：${formatWordRecord(record)}`)
+                break
+            }
+            case 'remove': {
+                const lexicon = parseLexiconName(name)
+                for (const record of editor.remove(lexicon, word)) {
+                    console.log(`已从${LEXICON_LABELS[lexicon]}删除：${formatWordRecord(record)}`)
+                }
+                break
+            }
+            case 'edit': {
+                const lexicon = parseLexiconName(name)
+                console.log(
+                    `已修改${LEXICON_LABELS[lexicon]}中的词：${formatWordRecord(editor.edit(lexicon, word, fields))}`
+                )
+                break
+            }
+            case 'search': {
+                const results = editor.search(name ?? '', {
+                    lexicons: lexiconNames.length > 0 ? lexiconNames.map(parseLexiconName) : undefined,
+                    vowel: fields.vowel,
+                })
+                if (json) {
+                    console.log(JSON.stringify(results, null, 2))
+                    break
+                }
+                for (const { lexicon, record } of results) {
+                    console.log(`  ${LEXICON_LABELS[lexicon]}  ${formatWordRecord(record)}`)
+                }
+                console.log(`共 ${results.length} 个`)
+                break
+            }
+            default: {
+                const stats = editor.stats()
+                if (json) {
+                    console.log(JSON.stringify(stats, null, 2))
+                    break
+                }
+                for (const { lexicon, total, vowels, properties, packEntries } of stats) {
+                    const counts = (record: Record<string, number>) =>
+                        Object.entries(record)
+                            .map(([key, count]) => `${key || '无'} ${count}`)
+                            .join('、')
+                    console.log(
+                        `${LEXICON_LABELS[lexicon]}：${total} 个${packEntries > 0 ? `（词汇包 ${packEntries} 个）` : ''}`
+                    )
+                    console.log(`  韵母：${counts(vowels)}`)
+                    if (Object.keys(properties).length > 0) {
+                        console.log(`  属性：${counts(properties)}`)
+                    }
+                }
+            }
+        }
+    } catch (error) {
+        console.error(`  ✗ ${error instanceof Error ? error.message : error}`)
+        process.exit(1)
+    }
+}
+
+/**
+ * 解析词库命令中的词库名称，无效时报错
+ */
+function parseLexiconName(name: string | undefined): EditableLexiconName {
+    const lexicon = name === undefined ? undefined : LEXICON_ALIASES[name]
+    if (!lexicon) {
+        throw new Error(`未知的词库：${name ?? ''}（可用：${Object.keys(LEXICON_ALIASES).join('、')}）`)
+    }
+    return lexicon
+}
+
+/**
+ * 格式化词库中的词条，如：月亮（韵母：ang，类别：天文，频率：5）
+ */
+function formatWordRecord(record: WordRecord): string {
+    const details = [
+        `韵母：${record.vowel || '无'}`,
+        record.class && `类别：${record.class}`,
+        record.property && `属性：${record.property}`,
+        record.liberty && `自由度：${record.liberty}`,
+        record.frequency !== null && `频率：${record.frequency}`,
+        record.pack && `词汇包：${record.pack}`,
+    ].filter(Boolean)
+    return `${record.word}（${details.join('，')}）`
+}
+
+/**
+ * 对联模式：固定为一段两行，不能指定诗体
+ */
+async function runCoupletMode(engine: PoetryEngine, options: CliOptions): Promise<void> {
+    if (options.form !== undefined) {
+        console.error('对联不能指定诗体')
+        process.exit(1)
+    }
+    // 按对联的两行校验藏头文字等参数
+    const generationOptions = buildGenerationOptions(engine, { ...options, paragraphs: 1, lines: 2 })
+
+    try {
+        console.log('正在作对联，请稍候...')
+        const couplet = engine.generateCouplet(generationOptions)
+
+        console.log('\n生成的对联：')
+        console.log('=====================================')
+        ;['上联', '下联'].forEach((label, index) => {
+            console.log(`  ${label}：${couplet.lines[index]}`)
+            if (couplet.trace) {
+                console.log(formatLineTrace(couplet.trace[index]).join('\n'))
+            }
+        })
+        console.log('=====================================')
+        if (couplet.acrostic) {
+            console.log(formatAcrostic(couplet.acrostic))
+        }
+        if (couplet.requiredWords) {
+            console.log(formatRequiredWords(couplet.requiredWords))
+        }
+        console.log(`随机种子：${couplet.seed}`)
+    } catch (error) {
+        console.error('作对联时出错：', error)
+        process.exit(1)
+    }
+}
+
 // 如果直接运行此文件，执行主函数
 if (import.meta.url === `file://${process.argv[1]}`) {
     main().catch(console.error)
@@ -1,14 +1,45 @@
 import { readFileSync } from 'node:fs'
-import { join } from 'node:path'
-import type { PoemLine, PoetryConfig, SentenceStructure, SpecialWord, WordRecord, WorkingStructure } from '@/types'
+import { resolve } from 'node:path'
+import type {
+    ArchivedPoemWords,
+    DataSource,
+    EditableLexiconName,
+    LexiconName,
+    PoemLine,
+    PoetryConfig,
+    SentenceStructure,
+    SpecialWord,
+    StyleProfile,
+    WordPack,
+    WordRecord,
+    WorkingStructure,
+} from '@/types'
+import { FileDataSource, resolveDataDir, resolveStateDir } from './data-source'
+import { LEXICON_FILES, mergeWordPacks } from './word-pack'
+
+/** 配置文件名 */
+const CONFIG_FILE = 'config.json'
+
+/** 配置文件不存在时使用的配置 */
+const DEFAULT_CONFIG: PoetryConfig = { poemNumber: 0, version: '2.0', lastUpdated: '' }
+
+/** 存档用词记录文件名 */
+const POEM_HISTORY_FILE = 'poem-history.json'
+
+/** 存档用词记录保留的最多诗歌数 */
+const MAX_POEM_HISTORY = 100
 
 /**
  * 数据访问层 - 负责加载和管理诗歌生成所需的数据
+ * 词库、句型等数据文件从数据源读取；配置与存档用词记录是运行状态，从状态数据源读写，
+ * 读写失败时报错，由调用方决定是否继续（数据访问层本身不输出任何信息）。
+ * 添加的词汇包按添加的顺序叠加在五个词库与特殊词库之上
  */
 export class DataService {
     private static instance: DataService
-    private dataDir: string
-    private configDir: string
+    private source: DataSource
+    private stateSource: DataSource
+    private wordPacks: WordPack[] = []
 
     // 缓存的数据
     private config: PoetryConfig | null = null
@@ -21,37 +52,71 @@ export class DataService {
     private workingStructures: WorkingStructure[] | null = null
     private specialWords: SpecialWord[] | null = null
     private poemLines: PoemLine[] | null = null
+    private poemHistory: ArchivedPoemWords[] | null = null
+    private styleProfiles: Record<string, StyleProfile> | null = null
+
+    /**
+     * @param source 数据文件的数据源
+     * @param stateSource 配置与存档用词记录的数据源（可选，默认与数据文件相同）
+     */
+    constructor(source: DataSource, stateSource: DataSource = source) {
+        this.source = source
+        this.stateSource = stateSource
+    }
 
-    private constructor() {
-        this.dataDir = join(process.cwd(), 'src', 'data')
-        this.configDir = process.cwd()
+    /**
+     * 由目录创建数据访问层
+     * @param dataDir 数据目录（可选，默认取环境变量 CYBERPOET_DATA_DIR，再默认为内置的数据目录）
+     * @param stateDir 配置与存档用词记录所在的目录（可选，默认取环境变量 CYBERPOET_STATE_DIR，再默认为程序所在的项目目录）
+     */
+    public static fromDirectory(dataDir?: string, stateDir?: string): DataService {
+        return new DataService(
+            new FileDataSource(resolveDataDir(dataDir)),
+            new FileDataSource(resolveStateDir(stateDir))
+        )
     }
 
-    /** 获取单例实例 */
+    /** 获取共享的默认实例（使用默认的数据目录）；需要各自独立的数据时用 fromDirectory 或构造函数创建 */
     public static getInstance(): DataService {
         if (!DataService.instance) {
-            DataService.instance = new DataService()
+            DataService.instance = DataService.fromDirectory()
         }
         return DataService.instance
     }
 
+    /**
+     * 添加词汇包，叠加在已添加的词汇包之上（同一个词以后添加的包为准）
+     * 应在生成诗歌之前添加，已据词库建立索引的服务不会看到之后添加的词
+     * @param pack 词汇包
+     */
+    public addWordPack(pack: WordPack): void {
+        this.wordPacks.push(pack)
+        this.clearCache()
+    }
+
+    /** 获取已添加的词汇包 */
+    public getWordPacks(): WordPack[] {
+        return [...this.wordPacks]
+    }
+
     /** 加载JSON文件 */
     private loadJsonFile<T>(filename: string): T {
         try {
-            const filePath = join(this.dataDir, filename)
-            const content = readFileSync(filePath, 'utf-8')
+            const content = this.source.read(filename)
+            if (content === null) {
+                throw new Error('文件不存在')
+            }
             return JSON.parse(content) as T
         } catch (error) {
             throw new Error(`无法加载数据文件 ${filename}: ${error}`)
         }
     }
 
-    /** 加载配置文件 */
+    /** 加载配置文件（文件不存在时使用默认配置） */
     private loadConfigFile(): PoetryConfig {
         try {
-            const configPath = join(this.configDir, 'config.json')
-            const content = readFileSync(configPath, 'utf-8')
-            return JSON.parse(content) as PoetryConfig
+            const content = this.stateSource.read(CONFIG_FILE)
+            return content === null ? { ...DEFAULT_CONFIG } : (JSON.parse(content) as PoetryConfig)
         } catch (error) {
             throw new Error(`无法加载配置文件: ${error}`)
         }
@@ -70,7 +135,7 @@ export class DataService {
         return this.getConfig()
     }
 
-    /** 更新诗歌编号并保存配置 */
+    /** 更新诗歌编号并保存配置，保存失败时报错 */
     public async updatePoemNumber(): Promise<void> {
         if (!this.config) {
             this.config = this.loadConfigFile()
@@ -81,27 +146,168 @@ export class DataService {
 
         // 保存到文件
         try {
-            const { writeFileSync } = await import('node:fs')
-            const configPath = join(this.configDir, 'config.json')
-            writeFileSync(configPath, JSON.stringify(this.config, null, 2), 'utf-8')
+            this.stateSource.write(CONFIG_FILE, JSON.stringify(this.config, null, 2))
+        } catch (error) {
+            throw new Error(`无法保存配置文件: ${error}`)
+        }
+    }
+
+    /** 获取存档诗歌的用词记录（文件不存在时为空，无法读取时报错） */
+    public getPoemHistory(): ArchivedPoemWords[] {
+        if (!this.poemHistory) {
+            try {
+                const content = this.stateSource.read(POEM_HISTORY_FILE)
+                this.poemHistory = content === null ? [] : (JSON.parse(content) as ArchivedPoemWords[])
+            } catch (error) {
+                throw new Error(`无法加载存档用词记录: ${error}`)
+            }
+        }
+        return this.poemHistory
+    }
+
+    /** 获取最近存档的若干首诗中用过的词汇 */
+    public getRecentPoemWords(count: number): string[] {
+        if (count <= 0) {
+            return []
+        }
+        return this.getPoemHistory()
+            .slice(-count)
+            .flatMap((entry) => entry.words)
+    }
+
+    /** 记录存档诗歌的用词，只保留最近 MAX_POEM_HISTORY 首，保存失败时报错 */
+    public async recordPoemWords(poemNumber: number, words: string[]): Promise<void> {
+        this.poemHistory = [...this.getPoemHistory(), { poemNumber, words }].slice(-MAX_POEM_HISTORY)
+
+        try {
+            this.stateSource.write(POEM_HISTORY_FILE, JSON.stringify(this.poemHistory, null, 2))
+        } catch (error) {
+            throw new Error(`无法保存存档用词记录: ${error}`)
+        }
+    }
+
+    /** 获取内置的风格配置 */
+    public getStyleProfiles(): Record<string, StyleProfile> {
+        if (!this.styleProfiles) {
+            const profiles = this.loadJsonFile<Record<string, unknown>>('styles.json')
+            this.styleProfiles = Object.fromEntries(
+                Object.entries(profiles).map(([name, profile]) => [name, this.parseStyleProfile(profile, name)])
+            )
+        }
+        return this.styleProfiles
+    }
+
+    /** 按名称获取内置的风格配置 */
+    public getStyleProfile(name: string): StyleProfile {
+        const profile = this.getStyleProfiles()[name]
+        if (!profile) {
+            throw new Error(`未知的风格: ${name}`)
+        }
+        return profile
+    }
+
+    /**
+     * 从 JSON 文件载入风格配置
+     * @param filePath 文件路径（相对路径按当前工作目录解析）
+     * @returns 风格配置
+     */
+    public loadStyleProfile(filePath: string): StyleProfile {
+        let data: unknown
+        try {
+            data = JSON.parse(readFileSync(resolve(filePath), 'utf-8'))
         } catch (error) {
-            console.warn('保存配置文件失败:', error)
-            // 不抛出错误，因为这不应该阻止诗歌生成
+            throw new Error(`无法加载风格配置文件 ${filePath}: ${error}`)
         }
+        return this.parseStyleProfile(data, filePath)
+    }
+
+    /** 校验风格配置的各字段，无效时报错 */
+    private parseStyleProfile(data: unknown, source: string): StyleProfile {
+        const fail = (message: string): never => {
+            throw new Error(`风格配置无效（${source}）：${message}`)
+        }
+        const isRecord = (value: unknown): value is Record<string, unknown> =>
+            typeof value === 'object' && value !== null && !Array.isArray(value)
+        const isWeight = (value: unknown): boolean => typeof value === 'number' && value >= 0
+        const checkWeights = (value: unknown, field: string): void => {
+            if (value !== undefined && (!isRecord(value) || !Object.values(value).every(isWeight))) {
+                fail(`${field} 的权重必须是非负数`)
+            }
+        }
+
+        if (!isRecord(data)) {
+            return fail('应为 JSON 对象')
+        }
+        if (typeof data.name !== 'string' || data.name === '') {
+            fail('缺少风格名称 name')
+        }
+
+        const { structureLength, rhyme } = data
+        if (structureLength !== undefined) {
+            const isLength = (value: unknown) => value === undefined || (Number.isInteger(value) && Number(value) > 0)
+            if (!isRecord(structureLength) || !isLength(structureLength.min) || !isLength(structureLength.max)) {
+                fail('structureLength 的 min、max 必须是正整数')
+            }
+            const { min, max } = structureLength as { min?: number; max?: number }
+            if (min !== undefined && max !== undefined && min > max) {
+                fail('structureLength 的 min 不能大于 max')
+            }
+        }
+        checkWeights(data.punctuationWeights, 'punctuationWeights')
+        checkWeights(data.nounClassWeights, 'nounClassWeights')
+        if (data.interjectionWeight !== undefined && !isWeight(data.interjectionWeight)) {
+            fail('interjectionWeight 必须是非负数')
+        }
+        for (const field of ['attributeProbability', 'interjectionProbability']) {
+            const value = data[field]
+            if (value !== undefined && (typeof value !== 'number' || value < 0 || value > 1)) {
+                fail(`${field} 必须是 0 到 1 之间的数`)
+            }
+        }
+        const { grammar } = data
+        if (
+            grammar !== undefined &&
+            (!isRecord(grammar) ||
+                typeof grammar.start !== 'string' ||
+                !isRecord(grammar.rules) ||
+                !Object.values(grammar.rules).every((rule) => typeof rule === 'string'))
+        ) {
+            fail('grammar 应包含起始规则名 start 与规则 rules（规则名 → 规则右侧的文字）')
+        }
+        if (rhyme !== undefined && !isRecord(rhyme)) {
+            fail('rhyme 应为对象')
+        }
+
+        return data as unknown as StyleProfile
     }
 
     /** 获取名词数据 */
     public getNouns(): WordRecord[] {
         if (!this.nouns) {
-            this.nouns = this.loadJsonFile<WordRecord[]>('nouns.json')
+            this.nouns = mergeWordPacks(this.loadJsonFile<WordRecord[]>('nouns.json'), this.wordPacks, 'nouns')
         }
         return this.nouns
     }
 
+    /** 获取名词类别（即可用的主题），按首次出现的顺序排列 */
+    public getNounClasses(): string[] {
+        const classes = new Set<string>()
+        for (const noun of this.getNouns()) {
+            if (noun.class !== '') {
+                classes.add(noun.class)
+            }
+        }
+        return [...classes]
+    }
+
     /** 获取形容词数据 */
     public getAdjectives(): WordRecord[] {
         if (!this.adjectives) {
-            this.adjectives = this.loadJsonFile<WordRecord[]>('adjectives.json')
+            this.adjectives = mergeWordPacks(
+                this.loadJsonFile<WordRecord[]>('adjectives.json'),
+                this.wordPacks,
+                'adjectives'
+            )
         }
         return this.adjectives
     }
@@ -109,7 +315,11 @@ export class DataService {
     /** 获取不及物动词数据 */
     public getIntransitiveVerbs(): WordRecord[] {
         if (!this.intransitiveVerbs) {
-            this.intransitiveVerbs = this.loadJsonFile<WordRecord[]>('intransitive-verbs.json')
+            this.intransitiveVerbs = mergeWordPacks(
+                this.loadJsonFile<WordRecord[]>('intransitive-verbs.json'),
+                this.wordPacks,
+                'intransitiveVerbs'
+            )
         }
         return this.intransitiveVerbs
     }
@@ -117,7 +327,11 @@ export class DataService {
     /** 获取及物动词数据 */
     public getTransitiveVerbs(): WordRecord[] {
         if (!this.transitiveVerbs) {
-            this.transitiveVerbs = this.loadJsonFile<WordRecord[]>('transitive-verbs.json')
+            this.transitiveVerbs = mergeWordPacks(
+                this.loadJsonFile<WordRecord[]>('transitive-verbs.json'),
+                this.wordPacks,
+                'transitiveVerbs'
+            )
         }
         return this.transitiveVerbs
     }
@@ -125,7 +339,11 @@ export class DataService {
     /** 获取叹词数据 */
     public getInterjections(): WordRecord[] {
         if (!this.interjections) {
-            this.interjections = this.loadJsonFile<WordRecord[]>('interjections.json')
+            this.interjections = mergeWordPacks(
+                this.loadJsonFile<WordRecord[]>('interjections.json'),
+                this.wordPacks,
+                'interjections'
+            )
         }
         return this.interjections
     }
@@ -138,6 +356,45 @@ export class DataService {
         return this.sentenceStructures
     }
 
+    /**
+     * 在句型库末尾添加句型，并写回句型数据文件
+     * @param structure 句型结构
+     * @returns 新句型的序号（从0开始）
+     */
+    public addSentenceStructure(structure: SentenceStructure): number {
+        const structures = [...this.getSentenceStructures(), structure]
+        try {
+            this.source.write('sentence-structures.json', `${JSON.stringify(structures, null, 2)}\n`)
+        } catch (error) {
+            throw new Error(`无法保存数据文件 sentence-structures.json: ${error}`)
+        }
+        this.sentenceStructures = structures
+        return structures.length - 1
+    }
+
+    /**
+     * 读取词库数据文件中的词条（不叠加词汇包），供编辑词库
+     * @param lexicon 词库
+     */
+    public loadLexiconFile(lexicon: EditableLexiconName): WordRecord[] {
+        return this.loadJsonFile<WordRecord[]>(LEXICON_FILES[lexicon])
+    }
+
+    /**
+     * 写回词库数据文件，并重置缓存
+     * @param lexicon 词库
+     * @param records 全部词条
+     */
+    public saveLexiconFile(lexicon: EditableLexiconName, records: WordRecord[]): void {
+        const filename = LEXICON_FILES[lexicon]
+        try {
+            this.source.write(filename, `${JSON.stringify(records, null, 2)}\n`)
+        } catch (error) {
+            throw new Error(`无法保存数据文件 ${filename}: ${error}`)
+        }
+        this.clearCache()
+    }
+
     /** 获取工作结构数据 */
     public getWorkingStructures(): WorkingStructure[] {
         if (!this.workingStructures) {
@@ -149,7 +406,11 @@ export class DataService {
     /** 获取特殊词数据 */
     public getSpecialWords(): SpecialWord[] {
         if (!this.specialWords) {
-            this.specialWords = this.loadJsonFile<SpecialWord[]>('special-words.json')
+            this.specialWords = mergeWordPacks(
+                this.loadJsonFile<SpecialWord[]>('special-words.json'),
+                this.wordPacks,
+                'specialWords'
+            )
         }
         return this.specialWords
     }
@@ -184,13 +445,42 @@ export class DataService {
                 return this.getSpecialWords().map((sw) => ({
                     word: sw.content,
                     vowel: '',
+                    class: '',
                     property: '',
+                    liberty: '',
+                    frequency: null,
+                    ...(sw.pack && { pack: sw.pack }),
                 }))
             default:
                 throw new Error(`未支持的词性: ${partOfSpeech}`)
         }
     }
 
+    /** 根据词性获取对应的词库名称 */
+    public getLexiconName(partOfSpeech: string): LexiconName {
+        switch (partOfSpeech) {
+            case 'MM':
+            case 'MC':
+            case 'MR':
+                return 'nouns'
+            case 'DD':
+            case 'DI':
+            case 'DV':
+            case 'DO':
+                return 'intransitiveVerbs'
+            case 'DJ':
+                return 'transitiveVerbs'
+            case 'XA':
+                return 'adjectives'
+            case 'TT':
+                return 'interjections'
+            case 'SS':
+                return 'specialWords'
+            default:
+                throw new Error(`未支持的词性: ${partOfSpeech}`)
+        }
+    }
+
     /** 重置缓存 */
     public clearCache(): void {
         this.config = null
@@ -203,5 +493,7 @@ export class DataService {
         this.workingStructures = null
         this.specialWords = null
         this.poemLines = null
+        this.poemHistory = null
+        this.styleProfiles = null
     }
 }
@@ -0,0 +1,103 @@
+import { mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs'
+import { join, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import type { DataSource } from '@/types'
+
+/** 指定数据目录的环境变量 */
+export const DATA_DIR_ENV = 'CYBERPOET_DATA_DIR'
+
+/** 内置的数据目录（与本模块的位置相对，不依赖当前工作目录） */
+export const DEFAULT_DATA_DIR = fileURLToPath(new URL('../data', import.meta.url))
+
+/** 指定状态目录（诗歌编号与存档用词记录）的环境变量 */
+export const STATE_DIR_ENV = 'CYBERPOET_STATE_DIR'
+
+/** 默认的状态目录：程序所在的项目目录（与本模块的位置相对，不依赖当前工作目录） */
+export const DEFAULT_STATE_DIR = resolve(fileURLToPath(new URL('../..', import.meta.url)))
+
+/**
+ * 取数据目录：依次为参数、环境变量 CYBERPOET_DATA_DIR 与内置的数据目录
+ * @param dataDir 指定的数据目录（相对路径按当前工作目录解析）
+ */
+export function resolveDataDir(dataDir?: string): string {
+    const dir = dataDir || process.env[DATA_DIR_ENV]
+    return dir ? resolve(dir) : DEFAULT_DATA_DIR
+}
+
+/**
+ * 取状态目录：依次为参数、环境变量 CYBERPOET_STATE_DIR 与程序所在的项目目录
+ * @param stateDir 指定的状态目录（相对路径按当前工作目录解析）
+ */
+export function resolveStateDir(stateDir?: string): string {
+    const dir = stateDir || process.env[STATE_DIR_ENV]
+    return dir ? resolve(dir) : DEFAULT_STATE_DIR
+}
+
+/**
+ * 文件目录数据源 - 从目录中读写 JSON 数据文件
+ */
+export class FileDataSource implements DataSource {
+    public readonly dir: string
+
+    /**
+     * @param dir 目录（相对路径按当前工作目录解析）
+     */
+    constructor(dir: string) {
+        this.dir = resolve(dir)
+    }
+
+    /** 读取文件内容，文件不存在时返回 null */
+    public read(filename: string): string | null {
+        try {
+            return readFileSync(join(this.dir, filename), 'utf-8')
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null
+            }
+            throw error
+        }
+    }
+
+    /** 写入文件内容（目录不存在时创建）：先写入同一目录中的临时文件再改名，写入中断时不会留下不完整的文件 */
+    public write(filename: string, content: string): void {
+        const path = join(this.dir, filename)
+        const temporaryPath = `${path}.${process.pid}.tmp`
+        mkdirSync(this.dir, { recursive: true })
+        try {
+            writeFileSync(temporaryPath, content, 'utf-8')
+            renameSync(temporaryPath, path)
+        } catch (error) {
+            rmSync(temporaryPath, { force: true })
+            throw error
+        }
+    }
+}
+
+/**
+ * 内存数据源 - 数据保存在内存中，写入不落盘，用于测试或嵌入其他程序
+ */
+export class MemoryDataSource implements DataSource {
+    private files: Map<string, string>
+
+    /**
+     * @param files 文件名 → 文件内容（非字符串的内容按 JSON 序列化）
+     */
+    constructor(files: Record<string, unknown> = {}) {
+        this.files = new Map(
+            Object.entries(files).map(([filename, content]) => [
+                filename,
+                typeof content === 'string' ? content : JSON.stringify(content),
+            ])
+        )
+    }
+
+    /** 读取文件内容，文件不存在时返回 null */
+    public read(filename: string): string | null {
+        return this.files.get(filename) ?? null
+    }
+
+    /** 写入文件内容 */
+    public write(filename: string, content: string): void {
+        this.files.set(filename, content)
+    }
+}
@@ -0,0 +1,101 @@
+import type { PoemForm, PoemFormDefinition, PoetryGenerationOptions, RandomSource } from '@/types'
+import { SeededRandom } from './random-source'
+
+/** 内置的格律诗体 */
+export const POEM_FORMS: Record<PoemForm, PoemFormDefinition> = {
+    wujue: { name: '五言绝句', charactersPerLine: 5, lineCount: 4 },
+    qijue: { name: '七言绝句', charactersPerLine: 7, lineCount: 4 },
+    wulv: { name: '五言律诗', charactersPerLine: 5, lineCount: 8 },
+    qilv: { name: '七言律诗', charactersPerLine: 7, lineCount: 8 },
+}
+
+/** 为一行分配词槽字数时最多尝试的搜索步数 */
+const MAX_SEARCH_STEPS = 2000
+
+/**
+ * 格律规划器 - 为固定字数的诗体分配各词槽的字数
+ */
+export class FormPlanner {
+    private random: RandomSource
+
+    constructor(random: RandomSource = new SeededRandom()) {
+        this.random = random
+    }
+
+    /**
+     * 按诗体调整生成选项：格律诗不分段，行数由诗体决定
+     * @param options 生成选项
+     * @returns 调整后的生成选项
+     */
+    public static applyForm(options: PoetryGenerationOptions): PoetryGenerationOptions {
+        if (!options.form) {
+            return options
+        }
+        const form = FormPlanner.getForm(options.form)
+        return { ...options, paragraphCount: 1, linesPerParagraph: form.lineCount }
+    }
+
+    /** 获取诗体定义 */
+    public static getForm(form: PoemForm): PoemFormDefinition {
+        const definition = POEM_FORMS[form]
+        if (!definition) {
+            throw new Error(`未知的诗体: ${form}`)
+        }
+        return definition
+    }
+
+    /** 计算诗句的字数（不含标点和空白） */
+    public static countCharacters(text: string): number {
+        return text.replace(/[\p{P}\s]/gu, '').length
+    }
+
+    /**
+     * 在有界搜索内为各词槽选定字数，使总字数恰好等于目标
+     * @param slotLengths 每个词槽可选的字数
+     * @param target 所有词槽的总字数
+     * @returns 各词槽的字数，搜索不到时返回 null
+     */
+    public fitSlotLengths(slotLengths: number[][], target: number): number[] | null {
+        // 打乱每个词槽的可选字数，让同一句型也能有不同的字数分配
+        const options = slotLengths.map((lengths) => this.shuffle([...new Set(lengths)]))
+        const minRemaining: number[] = []
+        const maxRemaining: number[] = []
+        for (let i = options.length - 1; i >= 0; i--) {
+            minRemaining[i] = Math.min(...options[i]) + (minRemaining[i + 1] ?? 0)
+            maxRemaining[i] = Math.max(...options[i]) + (maxRemaining[i + 1] ?? 0)
+        }
+
+        const chosen: number[] = []
+        let steps = 0
+
+        const search = (slotIndex: number, remaining: number): boolean => {
+            if (slotIndex === options.length) {
+                return remaining === 0
+            }
+            if (remaining < minRemaining[slotIndex] || remaining > maxRemaining[slotIndex]) {
+                return false
+            }
+            for (const length of options[slotIndex]) {
+                if (++steps > MAX_SEARCH_STEPS) {
+                    return false
+                }
+                chosen[slotIndex] = length
+                if (search(slotIndex + 1, remaining - length)) {
+                    return true
+                }
+            }
+            return false
+        }
+
+        return search(0, target) ? chosen.slice(0, options.length) : null
+    }
+
+    /** 随机打乱数组 */
+    private shuffle<T>(items: T[]): T[] {
+        for (let i = items.length - 1; i > 0; i--) {
+            const j = Math.floor(this.random.next() * (i + 1))
+            ;[items[i], items[j]] = [items[j], items[i]]
+        }
+        return items
+    }
+}
@@ -0,0 +1,223 @@
+import type {
+    EditableLexiconName,
+    LexiconSearchOptions,
+    LexiconSearchResult,
+    LexiconStats,
+    RhymeScheme,
+    WordFields,
+    WordRecord,
+} from '@/types'
+import type { DataService } from './data-service'
+import { RHYME_SCHEMES } from './rhyme-planner'
+
+/** 可编辑的词库，按原程序 addword 的顺序排列 */
+export const EDITABLE_LEXICONS: EditableLexiconName[] = [
+    'nouns',
+    'adjectives',
+    'intransitiveVerbs',
+    'transitiveVerbs',
+    'interjections',
+]
+
+/** 必须指定属性的词库（原程序添加名词与不及物动词时询问属性） */
+const PROPERTY_LEXICONS: EditableLexiconName[] = ['nouns', 'intransitiveVerbs']
+
+/** 词中可以用「/」分开动词与宾语的词库 */
+const VERB_LEXICONS: EditableLexiconName[] = ['intransitiveVerbs', 'transitiveVerbs']
+
+/**
+ * 词库编辑器 - 在词库数据文件中添加、删除、修改词条，以及查找与统计（移植自原程序的 addword）
+ * 编辑只改动基础词库的数据文件，不涉及词汇包；查找与统计包含词汇包中的词条。
+ * 写回时保持其余词条的顺序：修改的词条留在原处，新词插在同一韵母（名词还须同一属性）的最后一个词之后
+ */
+export class LexiconEditor {
+    private dataService: DataService
+
+    constructor(dataService: DataService) {
+        this.dataService = dataService
+    }
+
+    /**
+     * 在词库中添加词条，词库中已有该词时报错
+     * @param lexicon 词库
+     * @param fields 词条的字段，须有词与韵母；名词与不及物动词须有属性（可为空）
+     * @returns 添加的词条
+     */
+    public add(lexicon: EditableLexiconName, fields: WordFields): WordRecord {
+        const record = this.validate(lexicon, fields)
+        const records = this.dataService.loadLexiconFile(lexicon)
+        this.checkDuplicate(records, record.word)
+
+        let index = records.length
+        for (let i = records.length - 1; i >= 0; i--) {
+            if (records[i].vowel === record.vowel && (lexicon !== 'nouns' || records[i].property === record.property)) {
+                index = i + 1
+                break
+            }
+        }
+        records.splice(index, 0, record)
+        this.dataService.saveLexiconFile(lexicon, records)
+        return record
+    }
+
+    /**
+     * 从词库中删除一个词（多音词的各条记录一并删除）
+     * @param lexicon 词库
+     * @param word 词（动词可省略分隔符「/」）
+     * @returns 删除的词条
+     */
+    public remove(lexicon: EditableLexiconName, word: string): WordRecord[] {
+        const records = this.dataService.loadLexiconFile(lexicon)
+        const removed = records.filter((record) => LexiconEditor.isSameWord(record.word, word))
+        if (removed.length === 0) {
+            throw new Error(`词库中没有该词：${word}`)
+        }
+        this.dataService.saveLexiconFile(
+            lexicon,
+            records.filter((record) => !removed.includes(record))
+        )
+        return removed
+    }
+
+    /**
+     * 修改词库中的词条，修改后的词条留在原处
+     * @param lexicon 词库
+     * @param word 要修改的词（动词可省略分隔符「/」），多音词有多条记录时报错
+     * @param changes 修改的字段，可改词本身
+     * @returns 修改后的词条
+     */
+    public edit(lexicon: EditableLexiconName, word: string, changes: WordFields): WordRecord {
+        const records = this.dataService.loadLexiconFile(lexicon)
+        const matches = records.filter((record) => LexiconEditor.isSameWord(record.word, word))
+        if (matches.length === 0) {
+            throw new Error(`词库中没有该词：${word}`)
+        }
+        if (matches.length > 1) {
+            throw new Error(`「${word}」在词库中有 ${matches.length} 条记录（多音词），请删除后重新添加`)
+        }
+
+        const [original] = matches
+        const record = this.validate(lexicon, { ...original, ...changes }, original)
+        if (!LexiconEditor.isSameWord(record.word, original.word)) {
+            this.checkDuplicate(records, record.word)
+        }
+        records[records.indexOf(original)] = record
+        this.dataService.saveLexiconFile(lexicon, records)
+        return record
+    }
+
+    /**
+     * 查找包含指定文字的词（忽略动词中的分隔符「/」），包括词汇包中的词
+     * @param text 要查找的文字，为空时列出全部词条
+     * @param options 查找条件
+     * @returns 查找到的词汇，按词库与词库中的顺序排列
+     */
+    public search(text: string, options: LexiconSearchOptions = {}): LexiconSearchResult[] {
+        const query = text.replace('/', '')
+        return (options.lexicons ?? EDITABLE_LEXICONS).flatMap((lexicon) =>
+            this.getLexicon(lexicon)
+                .filter(
+                    (record) =>
+                        record.word.replace('/', '').includes(query) &&
+                        (options.vowel === undefined || record.vowel === options.vowel)
+                )
+                .map((record) => ({ lexicon, record }))
+        )
+    }
+
+    /**
+     * 统计各词库的词条数，包括词汇包中的词条
+     * @returns 各词库的统计，韵母按韵脚的顺序排列
+     */
+    public stats(): LexiconStats[] {
+        return EDITABLE_LEXICONS.map((lexicon) => {
+            const records = this.getLexicon(lexicon)
+            const count = (values: string[]): Record<string, number> => {
+                const counts: Record<string, number> = {}
+                for (const value of values) {
+                    counts[value] = (counts[value] ?? 0) + 1
+                }
+                return counts
+            }
+            const vowels = count(records.map((record) => record.vowel))
+            const ordered = [...RHYME_SCHEMES.filter((vowel) => vowel in vowels), ...Object.keys(vowels)]
+
+            return {
+                lexicon,
+                total: records.length,
+                vowels: Object.fromEntries([...new Set(ordered)].map((vowel) => [vowel, vowels[vowel]])),
+                properties: count(records.map((record) => record.property).filter((property) => property !== '')),
+                packEntries: records.filter((record) => record.pack).length,
+            }
+        })
+    }
+
+    /** 校验词条的字段，返回字段顺序与数据文件一致的词条；修改词条时未改动的韵母不再检查 */
+    private validate(lexicon: EditableLexiconName, fields: WordFields, original?: WordRecord): WordRecord {
+        const word = fields.word?.trim() ?? ''
+        const fail = (message: string): never => {
+            throw new Error(`词条无效（${word || '空'}）：${message}`)
+        }
+
+        if (word === '' || /\s/.test(word)) {
+            fail('词不能为空或含有空白')
+        }
+        if (word.includes('/')) {
+            if (!VERB_LEXICONS.includes(lexicon)) {
+                fail('只有动词可以用「/」分开动词与宾语')
+            }
+            const parts = word.split('/')
+            if (parts.length !== 2 || parts.some((part) => part === '')) {
+                fail('动词中的「/」应把词分为动词与宾语两部分，如 骑/马')
+            }
+        }
+        if ((!original || fields.vowel !== original.vowel) && !RHYME_SCHEMES.includes(fields.vowel as RhymeScheme)) {
+            const problem = fields.vowel === undefined ? '缺少韵母' : `韵母 ${fields.vowel} 无效`
+            fail(`${problem}（可用：${RHYME_SCHEMES.join('、')}）`)
+        }
+        if (PROPERTY_LEXICONS.includes(lexicon) && fields.property === undefined) {
+            fail('名词与不及物动词必须指定属性（没有属性时为空）')
+        }
+        const { frequency = null } = fields
+        if (frequency !== null && (!Number.isInteger(frequency) || frequency < 0 || frequency > 5)) {
+            fail('频率必须是 0 到 5 之间的整数')
+        }
+
+        return {
+            word,
+            vowel: fields.vowel ?? '',
+            class: fields.class ?? '',
+            property: fields.property ?? '',
+            liberty: fields.liberty ?? '',
+            frequency,
+        }
+    }
+
+    /** 词库中已有该词时报错（动词忽略分隔符「/」比较） */
+    private checkDuplicate(records: WordRecord[], word: string): void {
+        if (records.some((record) => LexiconEditor.isSameWord(record.word, word))) {
+            throw new Error(`已经有该词：${word}`)
+        }
+    }
+
+    /** 获取词库中的词条（含词汇包） */
+    private getLexicon(lexicon: EditableLexiconName): WordRecord[] {
+        switch (lexicon) {
+            case 'nouns':
+                return this.dataService.getNouns()
+            case 'adjectives':
+                return this.dataService.getAdjectives()
+            case 'intransitiveVerbs':
+                return this.dataService.getIntransitiveVerbs()
+            case 'transitiveVerbs':
+                return this.dataService.getTransitiveVerbs()
+            default:
+                return this.dataService.getInterjections()
+        }
+    }
+
+    /** 两个词是否相同（忽略动词中的分隔符「/」） */
+    private static isSameWord(a: string, b: string): boolean {
+        return a.replace('/', '') === b.replace('/', '')
+    }
+}
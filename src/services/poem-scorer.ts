@@ -0,0 +1,166 @@
+import type { GeneratedPoem, PoemScore, PoemScoreBreakdown } from '@/types'
+import type { DataService } from './data-service'
+import { FormPlanner } from './form-planner'
+import { RhymeChecker } from './rhyme-checker'
+import { STRUCTURE_TAGS } from './structure-template'
+
+/** 各项得分在总分中的权重 */
+const SCORE_WEIGHTS: PoemScoreBreakdown = {
+    rhyme: 3,
+    repetition: 2,
+    lengthVariance: 1,
+    interjection: 1,
+    leftover: 3,
+}
+
+/** 以叹词开头的行所占比例的上限，不超过时叹词一项为满分 */
+const MAX_INTERJECTION_RATIO = 0.25
+
+/** 评分所需的诗歌内容 */
+type ScoredPoem = Pick<GeneratedPoem, 'lines' | 'rhymePlan' | 'words' | 'trace'>
+
+/**
+ * 诗歌评分器 - 从押韵、用词重复、句长变化、叹词多少与残留标记几方面为诗歌打分
+ * 押韵按词库中的韵母检查诗句实际的句末词，不依赖生成轨迹；有生成轨迹时还检查空词槽
+ */
+export class PoemScorer {
+    private dataService: DataService
+    private rhymeChecker: RhymeChecker
+
+    constructor(dataService: DataService) {
+        this.dataService = dataService
+        this.rhymeChecker = new RhymeChecker(dataService)
+    }
+
+    /**
+     * 为诗歌打分
+     * @param poem 生成的诗歌
+     * @returns 总分、各项得分与扣分的原因
+     */
+    public score(poem: ScoredPoem): PoemScore {
+        const issues: string[] = []
+        const breakdown: PoemScoreBreakdown = {
+            rhyme: this.scoreRhyme(poem, issues),
+            repetition: this.scoreRepetition(poem, issues),
+            lengthVariance: this.scoreLengthVariance(poem, issues),
+            interjection: this.scoreInterjection(poem, issues),
+            leftover: this.scoreLeftover(poem, issues),
+        }
+
+        const keys = Object.keys(SCORE_WEIGHTS) as (keyof PoemScoreBreakdown)[]
+        const totalWeight = keys.reduce((sum, key) => sum + SCORE_WEIGHTS[key], 0)
+        const weighted = keys.reduce((sum, key) => sum + breakdown[key] * SCORE_WEIGHTS[key], 0)
+        for (const key of keys) {
+            breakdown[key] = Math.round(breakdown[key] * 1000) / 1000
+        }
+        return { total: Math.round((weighted / totalWeight) * 1000) / 10, breakdown, issues }
+    }
+
+    /** 押韵：押韵行句末的词在词库中的韵母是否为该行的韵脚 */
+    private scoreRhyme(poem: ScoredPoem, issues: string[]): number {
+        const rhymeLines = poem.lines
+            .map((line, index) => ({ line, index, rhyme: poem.rhymePlan?.lineRhymes[index] ?? '' }))
+            .filter(({ rhyme }) => rhyme !== '')
+        if (rhymeLines.length === 0) {
+            return 1
+        }
+
+        let rhymed = 0
+        for (const { line, index, rhyme } of rhymeLines) {
+            // 生成的诗句以押韵词或限定韵脚的语气词结尾，不跳过语气词
+            const ending = this.rhymeChecker.findEndingWord(line, false)
+            if (ending?.vowels.includes(rhyme)) {
+                rhymed++
+            } else {
+                issues.push(`第${index + 1}行句末${ending ? `的「${ending.word}」` : ''}不押 ${rhyme} 韵`)
+            }
+        }
+        return rhymed / rhymeLines.length
+    }
+
+    /** 用词重复：重复出现的词汇越多得分越低 */
+    private scoreRepetition(poem: ScoredPoem, issues: string[]): number {
+        const words = poem.words ?? []
+        if (words.length === 0) {
+            return 1
+        }
+
+        const counts = new Map<string, number>()
+        for (const word of words) {
+            counts.set(word, (counts.get(word) ?? 0) + 1)
+        }
+        for (const [word, count] of counts) {
+            if (count > 1) {
+                issues.push(`「${word}」重复出现 ${count} 次`)
+            }
+        }
+        return counts.size / words.length
+    }
+
+    /** 句长变化：按各行字数的变异系数扣分 */
+    private scoreLengthVariance(poem: ScoredPoem, issues: string[]): number {
+        const lengths = poem.lines.map((line) => FormPlanner.countCharacters(line))
+        const mean = lengths.reduce((sum, length) => sum + length, 0) / lengths.length
+        if (lengths.length < 2 || mean === 0) {
+            return 1
+        }
+
+        const variance = lengths.reduce((sum, length) => sum + (length - mean) ** 2, 0) / lengths.length
+        const coefficient = Math.sqrt(variance) / mean
+        if (coefficient > 0.5) {
+            issues.push(`各行字数相差较大（${Math.min(...lengths)}-${Math.max(...lengths)} 字）`)
+        }
+        return Math.max(0, 1 - coefficient)
+    }
+
+    /** 叹词：句首第一个标点之前是叹词的行过多时扣分 */
+    private scoreInterjection(poem: ScoredPoem, issues: string[]): number {
+        if (poem.lines.length === 0) {
+            return 1
+        }
+        // 每次从数据访问层取叹词，添加词汇包后也能识别包中的叹词
+        const interjections = new Set(this.dataService.getInterjections().map((record) => record.word))
+        const count = poem.lines.filter((line) => interjections.has(line.trim().split(/[\p{P}\s]/u)[0])).length
+
+        const ratio = count / poem.lines.length
+        if (ratio <= MAX_INTERJECTION_RATIO) {
+            return 1
+        }
+        issues.push(`${count} 行以叹词开头`)
+        return Math.max(0, 1 - (ratio - MAX_INTERJECTION_RATIO) / (1 - MAX_INTERJECTION_RATIO))
+    }
+
+    /**
+     * 残留：诗句中残留的词性标记与生成轨迹中的空词槽
+     * 只有全由词性标记组成的字母串（如 MM、XADD）才算残留，「X射线」等含字母的词以及选中的词不算
+     */
+    private scoreLeftover(poem: ScoredPoem, issues: string[]): number {
+        if (poem.lines.length === 0) {
+            return 1
+        }
+
+        let faultyLines = 0
+        poem.lines.forEach((line, index) => {
+            const slots = poem.trace?.[index]?.slots ?? []
+            const tags = (line.match(/[A-Za-z]+/g) ?? []).filter(
+                (run) => PoemScorer.isStructureTags(run) && !slots.some((slot) => slot.selection.text.includes(run))
+            )
+            const emptySlots = slots.filter((slot) => slot.selection.text === '')
+            if (tags.length > 0) {
+                issues.push(`第${index + 1}行残留词性标记「${tags.join('、')}」`)
+            }
+            if (emptySlots.length > 0) {
+                issues.push(`第${index + 1}行的 ${emptySlots.map((slot) => slot.tag).join('、')} 词槽为空`)
+            }
+            if (tags.length > 0 || emptySlots.length > 0 || line.trim() === '') {
+                faultyLines++
+            }
+        })
+        return 1 - faultyLines / poem.lines.length
+    }
+
+    /** 字母串是否全由两个字母的词性标记组成 */
+    private static isStructureTags(run: string): boolean {
+        return run.length % 2 === 0 && (run.match(/../g) ?? []).every((tag) => STRUCTURE_TAGS.includes(tag))
+    }
+}
@@ -1,14 +1,48 @@
 import type {
+    AcrosticLine,
     GeneratedPoem,
+    LineTrace,
+    Logger,
     PartOfSpeech,
+    PoemScore,
+    PoeticStyle,
     PoetryGenerationOptions,
+    RandomSource,
+    RequiredWord,
+    RequiredWordPlacement,
+    ResolvedRequiredWord,
+    SlotTrace,
+    StructureGrammar,
+    StyleProfile,
+    WordSelection,
     WordSelectionContext,
     WorkingStructure,
 } from '@/types'
 import { DataService } from './data-service'
+import { FormPlanner } from './form-planner'
+import { PoemScorer } from './poem-scorer'
+import { SeededRandom } from './random-source'
+import { RhymePlanner } from './rhyme-planner'
+import { SelectionHistory } from './selection-history'
 import { StructureGenerator } from './structure-generator'
+import { convertStructuresToGrammar, GrammarStructureGenerator } from './structure-grammar'
+import { parseStructureTemplate, stringifyStructureTemplate } from './structure-template'
+import { TitleGenerator } from './title-generator'
 import { WordSelector } from './word-selector'
 
+/** 为一行寻找可凑足字数或以藏头字开头的句型时最多尝试的句型数 */
+const MAX_STRUCTURE_ATTEMPTS = 200
+
+/** 诗歌生成引擎的依赖，未指定的使用默认值 */
+export interface PoetryEngineOptions {
+    /** 数据访问层（默认使用默认数据目录的共享实例） */
+    data?: DataService
+    /** 随机数源（默认使用可设定种子的伪随机数生成器） */
+    random?: RandomSource
+    /** 进度信息与警告的输出（默认输出到控制台） */
+    logger?: Logger
+}
+
 /**
  * 诗歌生成引擎 - 核心诗歌生成逻辑
  * 还原自原始Visual FoxPro的cpzh和cpzhy程序逻辑
@@ -17,62 +51,786 @@ export class PoetryEngine {
     private dataService: DataService
     private wordSelector: WordSelector
     private structureGenerator: StructureGenerator
+    private grammarStructureGenerator: GrammarStructureGenerator
+    private rhymePlanner: RhymePlanner
+    private formPlanner: FormPlanner
+    private titleGenerator: TitleGenerator
+    private poemScorer: PoemScorer
+    private random: RandomSource
+    private logger: Logger
 
-    constructor() {
-        this.dataService = DataService.getInstance()
-        this.wordSelector = new WordSelector(this.dataService)
-        this.structureGenerator = new StructureGenerator(this.dataService)
+    /**
+     * 各个引擎使用各自的数据访问层与随机数源，可以并存（如使用不同的词库）
+     * @param options 引擎的依赖（可选）
+     */
+    constructor({
+        data = DataService.getInstance(),
+        random = new SeededRandom(),
+        logger = console,
+    }: PoetryEngineOptions = {}) {
+        this.dataService = data
+        this.random = random
+        this.logger = logger
+        this.wordSelector = new WordSelector(this.dataService, this.random)
+        this.structureGenerator = new StructureGenerator(this.dataService, this.random)
+        this.grammarStructureGenerator = new GrammarStructureGenerator(this.dataService, this.random)
+        this.rhymePlanner = new RhymePlanner(this.dataService, this.random)
+        this.formPlanner = new FormPlanner(this.random)
+        this.titleGenerator = new TitleGenerator(this.dataService, this.random)
+        this.poemScorer = new PoemScorer(this.dataService)
     }
 
     /**
      * 生成诗歌
+     * 指定 bestOf 时以相邻的种子生成多首候选诗歌，取得分最高的一首（得分相同时取先生成的）；
+     * 选中的诗歌的选项中不含 bestOf，用其选项即可复现这首诗
      * @param options 生成选项
      * @returns 生成的诗歌
      */
-    public generatePoetry(options: PoetryGenerationOptions): GeneratedPoem {
-        console.log(
-            `开始生成诗歌，风格：${options.style}，段数：${options.paragraphCount}，每段行数：${options.linesPerParagraph}`
+    public generatePoetry(generationOptions: PoetryGenerationOptions): GeneratedPoem {
+        const { bestOf = 1 } = generationOptions
+        if (!Number.isInteger(bestOf) || bestOf < 1) {
+            throw new Error(`候选诗歌的数量必须是正整数: ${bestOf}`)
+        }
+        if (bestOf === 1) {
+            return this.generateCandidate(generationOptions)
+        }
+
+        const seed = generationOptions.seed ?? SeededRandom.createSeed()
+        const candidates = Array.from({ length: bestOf }, (_, index) =>
+            this.generateCandidate({ ...generationOptions, seed: (seed + index) >>> 0, score: true })
         )
+        const best = candidates.reduce((best, candidate) =>
+            (candidate.score?.total ?? 0) > (best.score?.total ?? 0) ? candidate : best
+        )
+        this.logger.info(
+            `从 ${bestOf} 首候选诗歌中选出得分最高的一首（种子：${best.seed}，得分：${best.score?.total}）`
+        )
+
+        const { bestOf: _bestOf, ...options } = best.options
+        return {
+            ...best,
+            options,
+            candidates: candidates.map((candidate) => ({ seed: candidate.seed, total: candidate.score?.total ?? 0 })),
+        }
+    }
 
-        // 创建诗歌结构
-        const structures = this.structureGenerator.createStructure(
-            options.paragraphCount,
-            options.linesPerParagraph,
-            options.style,
-            options.rhymeScheme
+    /** 以选项中的种子生成一首诗歌并打分 */
+    private generateCandidate(generationOptions: PoetryGenerationOptions): GeneratedPoem {
+        const options = FormPlanner.applyForm(generationOptions)
+        const lineCount = options.paragraphCount * options.linesPerParagraph
+        if (options.acrostic && PoetryEngine.getAcrosticCharacters(options.acrostic).length > lineCount) {
+            throw new Error(`藏头文字的字数超过了诗的行数（${lineCount}行）`)
+        }
+
+        // 未指定种子时随机生成一个，以便事后复现；种子按 32 位无符号整数使用，记录的种子与实际使用的一致
+        const seed = (options.seed ?? SeededRandom.createSeed()) >>> 0
+        this.random.setSeed(seed)
+
+        this.logger.info(
+            `开始生成诗歌，风格：${this.getStyleProfile(options.style).name}，段数：${options.paragraphCount}，每段行数：${options.linesPerParagraph}，种子：${seed}`
+        )
+
+        // 规划押韵并创建诗歌结构
+        const rhymePlan = options.useRhyme ? this.rhymePlanner.planRhymes(options) : undefined
+        const structures = this.distributeRequiredWords(
+            this.getStructureGenerator(this.getStyleProfile(options.style)).createStructure(
+                options.paragraphCount,
+                options.linesPerParagraph,
+                this.getStyleProfile(options.style),
+                rhymePlan?.lineRhymes,
+                options.couplet
+            ),
+            options
         )
 
         // 生成诗句
         const lines: string[] = []
-        let lineNumber = 1
+        const trace: LineTrace[] = []
+        const history = this.createHistory(options)
 
-        for (const structure of structures) {
-            const line = this.generateLine(structure, options)
+        structures.forEach((structure, lineIndex) => {
+            const partnerIndex = this.getCoupletPartner(options, lineIndex)
+            const { line, lineTrace } =
+                partnerIndex !== undefined && partnerIndex < lineIndex
+                    ? this.generateParallelLine(structure, trace[partnerIndex], options, lineIndex, history)
+                    : this.generateFittedLine(
+                          structure,
+                          options,
+                          lineIndex,
+                          history,
+                          partnerIndex !== undefined ? structures[partnerIndex] : undefined
+                      )
             lines.push(line)
-            lineNumber++
-        }
+            trace.push(lineTrace)
+        })
 
-        console.log('诗歌生成完成！')
+        this.logger.info('诗歌生成完成！')
 
+        const words = history.getAllWords()
         return {
             lines,
             options,
+            seed,
+            rhymePlan,
+            trace: options.explain ? trace : undefined,
+            words,
+            acrostic: options.acrostic ? PoetryEngine.collectAcrostic(trace) : undefined,
+            requiredWords: options.mustInclude?.length ? this.collectRequiredWords(options, trace) : undefined,
+            score: options.score ? this.poemScorer.score({ lines, rhymePlan, words, trace }) : undefined,
             createdAt: new Date(),
         }
     }
 
+    /**
+     * 拆分藏头文字，去掉其中的标点和空白
+     * @param acrostic 藏头文字
+     * @returns 依次藏于各行句首的字
+     */
+    public static getAcrosticCharacters(acrostic: string): string[] {
+        return [...acrostic.replace(/[\p{P}\s]/gu, '')]
+    }
+
+    /**
+     * 生成一副对联（上联与下联共用句型，逐词对仗）
+     * @param options 生成选项（段数、行数与对仗设置固定为一副对联）
+     * @returns 两行的诗歌，第一行为上联，第二行为下联
+     */
+    public generateCouplet(
+        options: Omit<PoetryGenerationOptions, 'paragraphCount' | 'linesPerParagraph' | 'couplet' | 'form'>
+    ): GeneratedPoem {
+        return this.generatePoetry({
+            ...options,
+            paragraphCount: 1,
+            linesPerParagraph: 2,
+            couplet: true,
+            form: undefined,
+        })
+    }
+
+    /**
+     * 重写诗歌中的一行，保持其段内位置和押韵要求，其余诗句不变
+     * 对仗行保留共用的句型，只重新选词与另一行对仗
+     * 注意：重写后的诗歌无法再仅凭种子复现
+     * @param poem 带生成轨迹的诗歌
+     * @param lineIndex 行号（从0开始）
+     * @returns 重写后的新诗歌
+     */
+    public regenerateLine(poem: GeneratedPoem, lineIndex: number): GeneratedPoem {
+        const trace = this.requireTrace(poem, lineIndex)
+        const { options } = poem
+
+        const history = this.createHistory(options, trace)
+        history.clearLine(lineIndex)
+
+        const partnerIndex = this.getCoupletPartner(options, lineIndex)
+        if (partnerIndex !== undefined) {
+            const { line, lineTrace } = this.generateParallelLine(
+                trace[lineIndex].structure,
+                trace[partnerIndex],
+                options,
+                lineIndex,
+                history
+            )
+            return this.replaceLine(poem, trace, lineIndex, line, lineTrace)
+        }
+
+        // 新句型沿用该行的必用词
+        const structure: WorkingStructure = {
+            ...this.getStructureGenerator(this.getStyleProfile(options.style)).createLineStructure(
+                this.getStyleProfile(options.style),
+                poem.rhymePlan?.lineRhymes[lineIndex]
+            ),
+            requiredWords: trace[lineIndex].structure.requiredWords,
+        }
+        const { line, lineTrace } = this.generateFittedLine(structure, options, lineIndex, history)
+
+        return this.replaceLine(poem, trace, lineIndex, line, lineTrace)
+    }
+
+    /**
+     * 重新选择诗句中某个词槽的词汇，句型和其他词槽保持不变
+     * 注意：重写后的诗歌无法再仅凭种子复现
+     * @param poem 带生成轨迹的诗歌
+     * @param lineIndex 行号（从0开始）
+     * @param slotIndex 词槽序号（从0开始，对应生成轨迹中的 slots）
+     * @returns 重写后的新诗歌
+     */
+    public regenerateSlot(poem: GeneratedPoem, lineIndex: number, slotIndex: number): GeneratedPoem {
+        const trace = this.requireTrace(poem, lineIndex)
+        const lineTrace = trace[lineIndex]
+        const slot = lineTrace.slots[slotIndex]
+
+        if (!slot) {
+            throw new Error(`第${lineIndex + 1}行没有第${slotIndex + 1}个词槽`)
+        }
+
+        const history = this.createHistory(poem.options, trace)
+        history.forget(lineIndex, slot.selection.record?.word)
+        const partnerIndex = this.getCoupletPartner(poem.options, lineIndex)
+
+        const selection = this.selectWordForElement(
+            slot.partOfSpeech,
+            slot.needsRhyme,
+            lineTrace.structure,
+            poem.options,
+            {
+                usedWords: history.getUsedWords(lineIndex),
+                archivedWords: history.archivedWords,
+                // 格律诗中新词须与原词字数相同
+                length: poem.options.form ? FormPlanner.countCharacters(slot.selection.text) : undefined,
+                counterpart: partnerIndex !== undefined ? trace[partnerIndex].slots[slotIndex]?.selection : undefined,
+                // 藏头字落在句首词槽时，新词也须以该字开头
+                initial:
+                    lineTrace.acrostic?.exact && slot.elementIndex === this.getInitialElementIndex(lineTrace.structure)
+                        ? lineTrace.acrostic.character
+                        : undefined,
+                required: lineTrace.structure.requiredWords?.[slot.elementIndex]?.record,
+            }
+        )
+        const slots = lineTrace.slots.map((item, index) => (index === slotIndex ? { ...item, selection } : item))
+        const line = this.assembleLine(lineTrace.structure, slots)
+
+        return this.replaceLine(poem, trace, lineIndex, line, { ...lineTrace, slots })
+    }
+
+    /** 检查诗歌带有生成轨迹且行号有效 */
+    private requireTrace(poem: GeneratedPoem, lineIndex: number): LineTrace[] {
+        if (!poem.trace) {
+            throw new Error('诗歌缺少生成轨迹，无法局部重写（请在生成时开启 explain）')
+        }
+        if (!Number.isInteger(lineIndex) || lineIndex < 0 || lineIndex >= poem.lines.length) {
+            throw new Error(`行号超出范围: ${lineIndex + 1}`)
+        }
+        return poem.trace
+    }
+
+    /** 返回替换了指定行的新诗歌 */
+    private replaceLine(
+        poem: GeneratedPoem,
+        trace: LineTrace[],
+        lineIndex: number,
+        line: string,
+        lineTrace: LineTrace
+    ): GeneratedPoem {
+        const lines = [...poem.lines]
+        const newTrace = [...trace]
+        lines[lineIndex] = line
+        newTrace[lineIndex] = lineTrace
+        const words = SelectionHistory.fromTrace(newTrace).getAllWords()
+
+        return {
+            ...poem,
+            lines,
+            trace: newTrace,
+            words,
+            score: poem.score && this.poemScorer.score({ lines, rhymePlan: poem.rhymePlan, words, trace: newTrace }),
+            candidates: undefined,
+            acrostic: poem.acrostic ? PoetryEngine.collectAcrostic(newTrace) : undefined,
+            requiredWords: poem.requiredWords ? this.collectRequiredWords(poem.options, newTrace) : undefined,
+        }
+    }
+
+    /** 从生成轨迹中汇总各行的藏头结果 */
+    private static collectAcrostic(trace: LineTrace[]): AcrosticLine[] {
+        return trace.flatMap((lineTrace) => (lineTrace.acrostic ? [lineTrace.acrostic] : []))
+    }
+
+    /**
+     * 创建选词历史，按需载入最近存档的诗中用过的词汇（无法读取存档用词记录时提示并不回避）
+     * @param options 生成选项
+     * @param trace 已有的生成轨迹（局部重写时使用）
+     */
+    private createHistory(options: PoetryGenerationOptions, trace: LineTrace[] = []): SelectionHistory {
+        let archivedWords: string[] = []
+        if (options.avoidRecentPoems) {
+            try {
+                archivedWords = this.dataService.getRecentPoemWords(options.avoidRecentPoems)
+            } catch (error) {
+                this.logger.warn(`${(error as Error).message}，不回避最近存档的诗中的词汇`)
+            }
+        }
+        return SelectionHistory.fromTrace(trace, options.repeatCooldown, archivedWords)
+    }
+
+    /**
+     * 生成符合诗体字数和藏头要求、含有必用词的诗句
+     * 句型凑不出字数、不能以藏头字开头或放不下必用词时换用其他句型；
+     * 尝试 MAX_STRUCTURE_ATTEMPTS 个句型仍找不到以藏头字开头的句型时，在句首加上藏头字，
+     * 仍放不下必用词时放弃该行的必用词，仍凑不出字数时报错
+     * @param structure 工作结构
+     * @param options 生成选项
+     * @param lineIndex 行号（从0开始）
+     * @param history 选词历史，选出的词汇会记入其中
+     * @param pairedStructure 对仗的下一行的工作结构（可选，所选句型按其押韵要求也须凑得成字数）
+     * @returns 生成的诗句及其生成轨迹
+     */
+    private generateFittedLine(
+        structure: WorkingStructure,
+        options: PoetryGenerationOptions,
+        lineIndex: number,
+        history: SelectionHistory,
+        pairedStructure?: WorkingStructure
+    ): { line: string; lineTrace: LineTrace } {
+        const initial = this.getAcrosticCharacter(options, lineIndex)
+        const requiredWords = Object.values(structure.requiredWords ?? {})
+        // 先找以藏头字开头的句型，找不到再把藏头字加在句首；都放不下必用词时再不带必用词找一遍
+        const searches: { initial?: string; prefix?: string; words: ResolvedRequiredWord[] }[] = []
+        for (const words of requiredWords.length > 0 ? [requiredWords, []] : [[]]) {
+            searches.push(
+                ...(initial
+                    ? [
+                          { initial, words },
+                          { prefix: `${initial}，`, words },
+                      ]
+                    : [{ words }])
+            )
+        }
+
+        for (const { initial: searchInitial, prefix, words } of searches) {
+            let base = structure
+
+            for (let attempt = 0; attempt < MAX_STRUCTURE_ATTEMPTS; attempt++) {
+                const candidate = this.placeRequiredWords({ ...base, prefix }, words, searchInitial)
+                const plan = candidate && this.planLine(candidate, options, pairedStructure, searchInitial)
+                if (candidate && plan) {
+                    const result = this.generateLine(candidate, options, lineIndex, history, {
+                        ...plan,
+                        initial: searchInitial,
+                    })
+                    return initial ? this.withAcrostic(result, lineIndex, initial, !prefix) : result
+                }
+                base = this.getStructureGenerator(this.getStyleProfile(options.style)).createLineStructure(
+                    this.getStyleProfile(options.style),
+                    structure.rhymeScheme
+                )
+            }
+        }
+
+        if (!options.form) {
+            throw new Error(
+                `无法写出第${lineIndex + 1}行：尝试了${MAX_STRUCTURE_ATTEMPTS}个句型，都不能满足藏头与必用词的要求`
+            )
+        }
+        const form = FormPlanner.getForm(options.form)
+        throw new Error(
+            `无法写出${form.name}的第${lineIndex + 1}行：尝试了${MAX_STRUCTURE_ATTEMPTS}个句型，都凑不成${form.charactersPerLine}个字`
+        )
+    }
+
+    /**
+     * 检查句型能否满足藏头与字数要求，并为格律诗分配各词槽的字数
+     * @param structure 工作结构
+     * @param options 生成选项
+     * @param pairedStructure 对仗的下一行的工作结构（可选）
+     * @param initial 要求的首字（可选）
+     * @returns 各词槽的字数（非格律诗为空），不满足要求时返回 null
+     */
+    private planLine(
+        structure: WorkingStructure,
+        options: PoetryGenerationOptions,
+        pairedStructure?: WorkingStructure,
+        initial?: string
+    ): { slotLengths?: number[] } | null {
+        if (initial && !this.canStartWith(structure, initial)) {
+            return null
+        }
+        if (!options.form) {
+            return {}
+        }
+
+        const { charactersPerLine } = FormPlanner.getForm(options.form)
+        const slotLengths = this.fitSlotLengths(structure, charactersPerLine, initial)
+        if (!slotLengths) {
+            return null
+        }
+
+        // 对仗的下一行沿用本行句型，按下一行的押韵要求也要凑得成字数
+        if (
+            pairedStructure &&
+            this.fitSlotLengths(
+                {
+                    ...structure,
+                    needsRhyme: pairedStructure.needsRhyme,
+                    rhymeScheme: pairedStructure.rhymeScheme,
+                    requiredWords: undefined,
+                },
+                charactersPerLine
+            ) === null
+        ) {
+            return null
+        }
+
+        return { slotLengths }
+    }
+
+    /**
+     * 检查句型能否以指定的字开头：首个元素是以该字开头的固定文字，或是有以该字开头的词汇的词槽
+     */
+    private canStartWith(structure: WorkingStructure, initial: string): boolean {
+        if (structure.prefix) {
+            return structure.prefix.startsWith(initial)
+        }
+
+        const [firstElement] = this.getLineElements(structure)
+        if (!firstElement) {
+            return false
+        }
+        if (!firstElement.partOfSpeech) {
+            return firstElement.element.trimStart().startsWith(initial)
+        }
+
+        return this.getSlotLengthOptions(structure, initial)[0].length > 0
+    }
+
+    /** 获取某行的藏头字，没有时返回 undefined */
+    private getAcrosticCharacter(options: PoetryGenerationOptions, lineIndex: number): string | undefined {
+        if (!options.acrostic) {
+            return undefined
+        }
+        return PoetryEngine.getAcrosticCharacters(options.acrostic)[lineIndex]
+    }
+
+    /** 在诗句的生成轨迹中记录藏头结果 */
+    private withAcrostic(
+        result: { line: string; lineTrace: LineTrace },
+        lineIndex: number,
+        character: string,
+        exact: boolean
+    ): { line: string; lineTrace: LineTrace } {
+        return { ...result, lineTrace: { ...result.lineTrace, acrostic: { lineIndex, character, exact } } }
+    }
+
+    /**
+     * 把必用词分散安排到各行的词槽中
+     * 第 i 个词从全诗的第 i/n 处（n 为词数）起依次寻找放得下的行，使各词尽量分布在不同的段落
+     * @param structures 全诗各行的工作结构
+     * @param options 生成选项
+     * @returns 安排了必用词的工作结构，放不下的词不做安排
+     */
+    private distributeRequiredWords(
+        structures: WorkingStructure[],
+        options: PoetryGenerationOptions
+    ): WorkingStructure[] {
+        const words = this.resolveRequiredWords(options).flatMap(({ resolved }) => (resolved ? [resolved] : []))
+        const placed = [...structures]
+
+        words.forEach((word, index) => {
+            const start = Math.floor((index * placed.length) / words.length)
+            for (let offset = 0; offset < placed.length; offset++) {
+                const lineIndex = (start + offset) % placed.length
+                const structure = this.placeRequiredWords(
+                    placed[lineIndex],
+                    [...Object.values(placed[lineIndex].requiredWords ?? {}), word],
+                    this.getAcrosticCharacter(options, lineIndex)
+                )
+                if (structure) {
+                    placed[lineIndex] = structure
+                    return
+                }
+            }
+        })
+
+        return placed
+    }
+
+    /**
+     * 把必用词依次填入结构中可以填入的词槽（词性相符、押韵行的句末词押韵、句首词以藏头字开头）
+     * @param structure 工作结构（原有的必用词安排会被清除）
+     * @param words 必用词
+     * @param initial 句首词槽要求的首字（可选）
+     * @returns 安排了必用词的工作结构，放不下时返回 null
+     */
+    private placeRequiredWords(
+        structure: WorkingStructure,
+        words: ResolvedRequiredWord[],
+        initial?: string
+    ): WorkingStructure | null {
+        let placed: WorkingStructure = { ...structure, requiredWords: undefined }
+        if (words.length === 0) {
+            return placed
+        }
+
+        const wordElements = this.getLineElements(structure).filter((item) => item.partOfSpeech)
+        const rhymeElementIndex = this.getRhymeElementIndex(structure, wordElements)
+        const initialElementIndex = this.getInitialElementIndex(structure)
+
+        for (const word of words) {
+            const slots = wordElements.filter(
+                ({ elementIndex, partOfSpeech }) =>
+                    !placed.requiredWords?.[elementIndex] &&
+                    word.partsOfSpeech.includes(partOfSpeech as PartOfSpeech) &&
+                    this.wordSelector.getAvailableLengths({
+                        partOfSpeech: partOfSpeech as PartOfSpeech,
+                        needsRhyme: elementIndex === rhymeElementIndex,
+                        rhymeScheme: structure.rhymeScheme,
+                        initial: elementIndex === initialElementIndex ? initial : undefined,
+                        required: word.record,
+                    }).length > 0
+            )
+            if (slots.length === 0) {
+                return null
+            }
+            const { elementIndex } = slots[Math.floor(this.random.next() * slots.length)]
+            placed = { ...placed, requiredWords: { ...placed.requiredWords, [elementIndex]: word } }
+        }
+
+        return placed
+    }
+
+    /** 在词库中查找各必用词的词性 */
+    private resolveRequiredWords(
+        options: PoetryGenerationOptions
+    ): { word: RequiredWord; resolved: ResolvedRequiredWord | null }[] {
+        return (options.mustInclude ?? []).map((word) => ({
+            word,
+            resolved: this.wordSelector.resolveRequiredWord(word),
+        }))
+    }
+
+    /** 从生成轨迹中汇总各必用词的安排结果 */
+    private collectRequiredWords(options: PoetryGenerationOptions, trace: LineTrace[]): RequiredWordPlacement[] {
+        const placements = trace.flatMap((lineTrace, lineIndex) =>
+            Object.entries(lineTrace.structure.requiredWords ?? {}).map(([elementIndex, word]) => ({
+                lineIndex,
+                word: word.record.word,
+                partOfSpeech: lineTrace.slots.find((slot) => slot.elementIndex === Number(elementIndex))?.partOfSpeech,
+            }))
+        )
+
+        return this.resolveRequiredWords(options).map(({ word, resolved }) => {
+            if (!resolved) {
+                return { word: word.word, reason: '词库中没有这个词，请指定词性' }
+            }
+            const index = placements.findIndex((placement) => placement.word === resolved.record.word)
+            if (index === -1) {
+                return { word: word.word, reason: '没有可以填入的词槽' }
+            }
+            const [{ lineIndex, partOfSpeech }] = placements.splice(index, 1)
+            return { word: word.word, lineIndex, partOfSpeech }
+        })
+    }
+
+    /**
+     * 获取对仗行的另一行行号
+     * 对仗时每段中第1与第2行、第3与第4行……成对，段内行数为奇数时最后一行不对仗
+     * @returns 另一行的行号，不对仗时返回 undefined
+     */
+    private getCoupletPartner(options: PoetryGenerationOptions, lineIndex: number): number | undefined {
+        if (!options.couplet) {
+            return undefined
+        }
+        const positionInParagraph = lineIndex % options.linesPerParagraph
+        if (positionInParagraph % 2 === 1) {
+            return lineIndex - 1
+        }
+        return positionInParagraph + 1 < options.linesPerParagraph ? lineIndex + 1 : undefined
+    }
+
+    /**
+     * 生成与另一行对仗的诗句
+     * 沿用另一行展开后的句型（押韵要求按本行），逐个词槽选择词性与字数相同、名词属性相同的词
+     * 格律诗中各词槽字数与另一行相同，凑不到时重新分配字数以保证整行字数；
+     * 藏头诗中句型不能以藏头字开头时在句首加字
+     * @param structure 本行的工作结构（提供押韵要求）
+     * @param partnerTrace 另一行的生成轨迹
+     * @param options 生成选项
+     * @param lineIndex 行号（从0开始）
+     * @param history 选词历史，选出的词汇会记入其中
+     * @returns 生成的诗句及其生成轨迹
+     */
+    private generateParallelLine(
+        structure: WorkingStructure,
+        partnerTrace: LineTrace,
+        options: PoetryGenerationOptions,
+        lineIndex: number,
+        history: SelectionHistory
+    ): { line: string; lineTrace: LineTrace } {
+        const character = this.getAcrosticCharacter(options, lineIndex)
+        let parallelStructure: WorkingStructure = {
+            ...partnerTrace.structure,
+            needsRhyme: structure.needsRhyme,
+            rhymeScheme: structure.rhymeScheme,
+            prefix: undefined,
+            requiredWords: undefined,
+        }
+        const exact = !character || this.canStartWith(parallelStructure, character)
+        if (!exact) {
+            parallelStructure = { ...parallelStructure, prefix: `${character}，` }
+        }
+        const initial = exact ? character : undefined
+        // 本行的必用词放不进沿用的句型时放弃
+        parallelStructure =
+            this.placeRequiredWords(parallelStructure, Object.values(structure.requiredWords ?? {}), initial) ??
+            parallelStructure
+        const counterparts = partnerTrace.slots.map((slot) => slot.selection)
+
+        let slotLengths: number[] | undefined
+        if (options.form) {
+            const form = FormPlanner.getForm(options.form)
+            // 两行句首加的字数相同时，各词槽的字数才能与另一行一一相同
+            const samePrefix =
+                FormPlanner.countCharacters(parallelStructure.prefix ?? '') ===
+                FormPlanner.countCharacters(partnerTrace.structure.prefix ?? '')
+            slotLengths = counterparts.map((counterpart) => FormPlanner.countCharacters(counterpart.text))
+            if (!samePrefix || !this.canFillSlotLengths(parallelStructure, slotLengths, initial)) {
+                slotLengths = this.fitSlotLengths(parallelStructure, form.charactersPerLine, initial) ?? undefined
+            }
+            if (!slotLengths && parallelStructure.requiredWords) {
+                parallelStructure = { ...parallelStructure, requiredWords: undefined }
+                slotLengths = this.fitSlotLengths(parallelStructure, form.charactersPerLine, initial) ?? undefined
+            }
+            if (!slotLengths) {
+                throw new Error(
+                    `无法写出${form.name}的第${lineIndex + 1}行：对仗的句型凑不成${form.charactersPerLine}个字`
+                )
+            }
+        }
+
+        const result = this.generateLine(parallelStructure, options, lineIndex, history, {
+            slotLengths,
+            counterparts,
+            initial,
+        })
+        return character ? this.withAcrostic(result, lineIndex, character, exact) : result
+    }
+
+    /** 检查结构中的各词槽是否都有指定字数的词汇 */
+    private canFillSlotLengths(structure: WorkingStructure, slotLengths: number[], initial?: string): boolean {
+        return this.getSlotLengthOptions(structure, initial).every((lengths, index) =>
+            lengths.includes(slotLengths[index])
+        )
+    }
+
+    /**
+     * 获取结构中各词槽可选的字数
+     * @param structure 工作结构
+     * @param initial 句首词槽要求的首字（可选）
+     * @returns 每个词槽可选的字数
+     */
+    private getSlotLengthOptions(structure: WorkingStructure, initial?: string): number[][] {
+        const wordElements = this.getLineElements(structure).filter((item) => item.partOfSpeech)
+        const rhymeElementIndex = this.getRhymeElementIndex(structure, wordElements)
+        const initialElementIndex = this.getInitialElementIndex(structure)
+
+        return wordElements.map(({ elementIndex, partOfSpeech }) =>
+            this.wordSelector.getAvailableLengths({
+                partOfSpeech: partOfSpeech as PartOfSpeech,
+                needsRhyme: elementIndex === rhymeElementIndex,
+                rhymeScheme: structure.rhymeScheme,
+                initial: elementIndex === initialElementIndex ? initial : undefined,
+                required: structure.requiredWords?.[elementIndex]?.record,
+            })
+        )
+    }
+
+    /**
+     * 获取位于句首的词槽在结构中的元素位置
+     * @returns 句首为词槽时返回其元素位置，句首为固定文字或另加了文字时返回 -1
+     */
+    private getInitialElementIndex(structure: WorkingStructure): number {
+        const [firstElement] = this.getLineElements(structure)
+        if (structure.prefix || !firstElement?.partOfSpeech) {
+            return -1
+        }
+        return firstElement.elementIndex
+    }
+
+    /**
+     * 为结构中的各词槽分配字数，使整行（不含标点）恰好为指定字数
+     * @param structure 工作结构
+     * @param charactersPerLine 每行字数
+     * @param initial 句首词槽要求的首字（可选）
+     * @returns 各词槽的字数，无法凑成时返回 null
+     */
+    private fitSlotLengths(structure: WorkingStructure, charactersPerLine: number, initial?: string): number[] | null {
+        const literalText =
+            (structure.prefix ?? '') +
+            this.getLineElements(structure)
+                .filter((item) => !item.partOfSpeech)
+                .map((item) => item.element)
+                .join('')
+
+        return this.formPlanner.fitSlotLengths(
+            this.getSlotLengthOptions(structure, initial),
+            charactersPerLine - FormPlanner.countCharacters(literalText)
+        )
+    }
+
     /**
      * 生成单行诗句
      * @param structure 工作结构
      * @param options 生成选项
-     * @returns 生成的诗句
+     * @param lineIndex 行号（从0开始）
+     * @param history 选词历史，选出的词汇会记入其中
+     * @param constraints 各词槽要求的字数（用于格律诗）、对仗的词（用于对仗行）与句首词槽的首字（用于藏头诗），均可选
+     * @returns 生成的诗句及其生成轨迹
      */
-    private generateLine(structure: WorkingStructure, options: PoetryGenerationOptions): string {
-        let line = ''
+    private generateLine(
+        structure: WorkingStructure,
+        options: PoetryGenerationOptions,
+        lineIndex: number,
+        history: SelectionHistory,
+        constraints: { slotLengths?: number[]; counterparts?: WordSelection[]; initial?: string } = {}
+    ): { line: string; lineTrace: LineTrace } {
+        const { slotLengths, counterparts, initial } = constraints
+        const slots: SlotTrace[] = []
+        const wordElements = this.getLineElements(structure).filter((item) => item.partOfSpeech)
+        const rhymeElementIndex = this.getRhymeElementIndex(structure, wordElements)
+        const initialElementIndex = this.getInitialElementIndex(structure)
+
+        wordElements.forEach(({ elementIndex, element, partOfSpeech }, slotIndex) => {
+            if (partOfSpeech) {
+                const needsRhyme = elementIndex === rhymeElementIndex
+                const selection = this.selectWordForElement(partOfSpeech, needsRhyme, structure, options, {
+                    usedWords: history.getUsedWords(lineIndex),
+                    archivedWords: history.archivedWords,
+                    length: slotLengths?.[slotIndex],
+                    counterpart: counterparts?.[slotIndex],
+                    initial: elementIndex === initialElementIndex ? initial : undefined,
+                    required: structure.requiredWords?.[elementIndex]?.record,
+                })
+                history.record(lineIndex, selection.record?.word)
+                slots.push({ elementIndex, tag: element, partOfSpeech, needsRhyme, selection })
+            }
+        })
+
+        return {
+            line: this.assembleLine(structure, slots),
+            lineTrace: {
+                structureIndex: structure.sourceIndex ?? -1,
+                structure,
+                slots,
+            },
+        }
+    }
+
+    /**
+     * 确定押韵词槽的位置
+     * 与原程序 cpzhy 一致，押韵行中复合结构数所指的词受韵脚约束；复合结构数为0的句型句尾固定，没有押韵词槽
+     * @returns 押韵词槽在结构中的元素位置，不需要押韵时返回 -1
+     */
+    private getRhymeElementIndex(structure: WorkingStructure, wordElements: { elementIndex: number }[]): number {
+        const rhymeElementIndex = structure.compoundStructureCount - 1
+        if (!structure.needsRhyme || !wordElements.some(({ elementIndex }) => elementIndex === rhymeElementIndex)) {
+            return -1
+        }
+        return rhymeElementIndex
+    }
+
+    /**
+     * 获取结构中实际成句的元素，词性标记会附带规范化后的词性
+     * 进行时动词（DV）和结果补语动词（DO）自带修饰符，会跳过其后的两个元素；
+     * 押韵行在押韵的词之后结束（只保留句末标点）
+     */
+    private getLineElements(
+        structure: WorkingStructure
+    ): { elementIndex: number; element: string; partOfSpeech?: PartOfSpeech }[] {
+        const lineElements: { elementIndex: number; element: string; partOfSpeech?: PartOfSpeech }[] = []
         let elementIndex = 0
 
-        while (elementIndex < 27) {
-            const element = structure.elements[elementIndex] || ''
+        while (elementIndex < structure.elements.length) {
+            const element = structure.elements[elementIndex]
 
             if (element === '') {
                 break
@@ -82,21 +840,41 @@ export class PoetryEngine {
             if (this.isPartOfSpeech(element)) {
                 // 规范化词性标记
                 const partOfSpeech = this.normalizePartOfSpeech(element)
-                const word = this.selectWordForElement(partOfSpeech, options)
-                line += word
+                lineElements.push({ elementIndex, element, partOfSpeech })
 
                 // 处理特殊的复合动词结构
                 if (partOfSpeech === 'DV' || partOfSpeech === 'DO') {
                     elementIndex += 2 // 跳过后续的修饰符
                 }
             } else {
-                // 直接添加标点符号或修饰符
-                line += element
+                lineElements.push({ elementIndex, element })
             }
 
+            if (structure.needsRhyme && lineElements.at(-1)?.elementIndex === structure.compoundStructureCount - 1) {
+                break
+            }
             elementIndex++
         }
 
+        return lineElements
+    }
+
+    /**
+     * 按结构拼接各词槽的词汇与修饰符，组成完整诗句
+     * @param structure 工作结构
+     * @param slots 词槽选词记录
+     * @returns 诗句
+     */
+    private assembleLine(structure: WorkingStructure, slots: SlotTrace[]): string {
+        // 藏头诗中找不到以藏头字开头的句型时，藏头字加在句首
+        let line = structure.prefix ?? ''
+
+        for (const { elementIndex, element } of this.getLineElements(structure)) {
+            const slot = slots.find((item) => item.elementIndex === elementIndex)
+            // 词槽填入所选词汇，其余直接添加标点符号或修饰符
+            line += slot ? slot.selection.text : element
+        }
+
         // 添加句尾标点
         line += structure.punctuation
 
@@ -106,17 +884,34 @@ export class PoetryEngine {
     /**
      * 为结构元素选择词汇
      * @param partOfSpeech 词性
+     * @param needsRhyme 该词槽是否受韵脚约束
+     * @param structure 词槽所在行的工作结构（提供该行的韵脚）
      * @param options 生成选项
-     * @returns 选择的词汇
+     * @param constraints 选词历史与字数等附加约束
+     * @returns 选词结果
      */
-    private selectWordForElement(partOfSpeech: PartOfSpeech, options: PoetryGenerationOptions): string {
+    private selectWordForElement(
+        partOfSpeech: PartOfSpeech,
+        needsRhyme: boolean,
+        structure: WorkingStructure,
+        options: PoetryGenerationOptions,
+        constraints: Pick<
+            WordSelectionContext,
+            'usedWords' | 'archivedWords' | 'length' | 'counterpart' | 'initial' | 'required'
+        > = {}
+    ): WordSelection {
         const context: WordSelectionContext = {
             partOfSpeech,
-            needsRhyme: options.useRhyme,
-            rhymeScheme: options.rhymeScheme,
+            needsRhyme,
+            rhymeScheme: structure.rhymeScheme,
+            vocabulary: options.vocabulary,
+            topics: options.topics,
+            topicStrictness: options.topicStrictness,
+            classWeights: this.getStyleProfile(options.style).nounClassWeights,
+            ...constraints,
         }
 
-        return this.wordSelector.selectWord(context)
+        return this.wordSelector.selectWordWithDetail(context)
     }
 
     /**
@@ -155,7 +950,7 @@ export class PoetryEngine {
         }
 
         // 默认返回名词
-        console.warn(`未知的词性标记: ${element}，默认使用名词 (MM)`)
+        this.logger.warn(`未知的词性标记: ${element}，默认使用名词 (MM)`)
         return 'MM'
     }
 
@@ -220,8 +1015,21 @@ export class PoetryEngine {
             const fullPath = join(outputPath, filename)
             writeFileSync(fullPath, content, 'utf-8')
 
+            // 记录存档诗歌的用词，供以后的诗回避；用词记录与配置保存失败时只提示，因为这不应该阻止诗歌保存
+            try {
+                if (poem.words) {
+                    await this.dataService.recordPoemWords(config.poemNumber, poem.words)
+                }
+            } catch (error) {
+                this.logger.warn((error as Error).message)
+            }
+
             // 更新配置中的诗歌编号
-            await this.dataService.updatePoemNumber()
+            try {
+                await this.dataService.updatePoemNumber()
+            } catch (error) {
+                this.logger.warn((error as Error).message)
+            }
 
             return fullPath
         }
@@ -229,6 +1037,80 @@ export class PoetryEngine {
         return content
     }
 
+    /**
+     * 根据诗中的名词为诗歌拟题
+     * @param poem 生成的诗歌
+     * @returns 标题，诗中没有名词时为「无题」
+     */
+    public generateTitle(poem: GeneratedPoem): string {
+        return this.titleGenerator.generateTitle(poem)
+    }
+
+    /** 风格配置了句型文法时按文法生成句型，否则从句型库中选取 */
+    private getStructureGenerator(style: StyleProfile): StructureGenerator {
+        return style.grammar ? this.grammarStructureGenerator : this.structureGenerator
+    }
+
+    /**
+     * 获取风格配置
+     * @param style 内置风格名或风格配置
+     * @returns 风格配置
+     */
+    public getStyleProfile(style: PoeticStyle): StyleProfile {
+        return typeof style === 'string' ? this.dataService.getStyleProfile(style) : style
+    }
+
+    /**
+     * 从 JSON 文件载入风格配置
+     * @param filePath 文件路径
+     * @returns 风格配置
+     */
+    public loadStyleProfile(filePath: string): StyleProfile {
+        return this.dataService.loadStyleProfile(filePath)
+    }
+
+    /**
+     * 获取句型库中全部句型的模板写法
+     * @returns 句型模板列表，序号与句型库一致
+     */
+    public getStructureTemplates(): string[] {
+        return this.dataService.getSentenceStructures().map((structure) => stringifyStructureTemplate(structure))
+    }
+
+    /**
+     * 按模板在句型库中添加句型
+     * @param template 句型模板，如 TT，XA的MM被DJ得DD！{rhyme:E}
+     * @returns 新句型的序号（从0开始）
+     */
+    public addStructureTemplate(template: string): number {
+        return this.dataService.addSentenceStructure(parseStructureTemplate(template))
+    }
+
+    /**
+     * 获取由句型库自动转换而来的文法，可作为风格配置中文法的起点
+     * @returns 文法
+     */
+    public getLibraryGrammar(): StructureGrammar {
+        return convertStructuresToGrammar(this.dataService.getSentenceStructures())
+    }
+
+    /**
+     * 为诗歌打分
+     * @param poem 生成的诗歌（有生成轨迹时还检查空词槽）
+     * @returns 总分、各项得分与扣分的原因
+     */
+    public scorePoem(poem: GeneratedPoem): PoemScore {
+        return this.poemScorer.score(poem)
+    }
+
+    /**
+     * 获取可用的主题（名词类别）
+     * @returns 主题列表
+     */
+    public getAvailableTopics(): string[] {
+        return this.dataService.getNounClasses()
+    }
+
     /**
      * 获取诗歌年龄信息（从原始程序的计算逻辑迁移）
      * @returns 年龄描述字符串
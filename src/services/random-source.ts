@@ -0,0 +1,32 @@
+import type { RandomSource } from '@/types'
+
+/**
+ * 可设定种子的伪随机数生成器（mulberry32 算法）
+ * 相同的种子总是产生相同的随机序列，用于复现诗歌
+ */
+export class SeededRandom implements RandomSource {
+    private state: number
+
+    constructor(seed: number = SeededRandom.createSeed()) {
+        this.state = seed >>> 0
+    }
+
+    /** 以指定种子重置随机序列 */
+    public setSeed(seed: number): void {
+        this.state = seed >>> 0
+    }
+
+    /** 返回 [0, 1) 区间内的随机数 */
+    public next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0
+        let t = this.state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+    }
+
+    /** 生成一个新的随机种子（32位无符号整数） */
+    public static createSeed(): number {
+        return Math.floor(Math.random() * 0x100000000)
+    }
+}
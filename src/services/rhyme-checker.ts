@@ -0,0 +1,226 @@
+import type { LexiconName, RhymeCheckLine, RhymeCheckOptions, RhymeCheckResult, RhymeScheme, WordRecord } from '@/types'
+import type { DataService } from './data-service'
+import { RhymePlanner } from './rhyme-planner'
+
+/** 句尾可以跳过的语气词，押韵落在它们之前的词上 */
+const TRAILING_PARTICLES = ['啊', '呀', '吧', '呢', '吗', '嘛', '了', '啦', '哪', '哇', '哟', '呗', '的']
+
+/** 每行默认给出的替换建议数 */
+const DEFAULT_MAX_SUGGESTIONS = 5
+
+/** 查找句末词时依次检查的词库 */
+const RHYME_LEXICONS: LexiconName[] = ['nouns', 'adjectives', 'intransitiveVerbs', 'transitiveVerbs', 'interjections']
+
+/** 句末词 */
+export interface EndingWord {
+    /** 词库中的词（分开的动词去掉分隔符） */
+    word: string
+    /** 韵母（多音词可有多个） */
+    vowels: string[]
+    /** 该词所在的词库 */
+    lexicons: LexiconName[]
+    /** 句末词之后跳过的语气词 */
+    particle?: string
+}
+
+/** 词典中的一个词 */
+interface DictionaryEntry {
+    vowels: Set<string>
+    lexicons: Set<LexiconName>
+}
+
+/**
+ * 押韵检查器 - 按词库中的韵母检查任意诗歌（包括人写的诗）的押韵
+ * 段落之间以空行分隔，押韵格式的规则与生成诗歌时相同：同一字母的诗句押同一个韵，“-”和段内只出现一次的字母不押韵
+ */
+export class RhymeChecker {
+    private dataService: DataService
+    private dictionary: Map<string, DictionaryEntry> | null = null
+    private maxWordLength = 0
+
+    constructor(dataService: DataService) {
+        this.dataService = dataService
+    }
+
+    /**
+     * 检查诗歌的押韵
+     * 每组押韵句应押的韵取该组句末词中最多的韵母（可用 rhymeScheme 指定第一组），不押该韵的行给出替换建议
+     * @param text 诗歌全文
+     * @param options 检查选项
+     * @returns 各行的句末词、韵母与检查结果
+     */
+    public check(text: string, options: RhymeCheckOptions = {}): RhymeCheckResult {
+        const stanzas = text
+            .split(/\r?\n\s*\r?\n/)
+            .map((stanza) =>
+                stanza
+                    .split(/\r?\n/)
+                    .map((line) => line.trim())
+                    .filter((line) => line !== '')
+            )
+            .filter((stanza) => stanza.length > 0)
+
+        const limit = options.maxSuggestions ?? DEFAULT_MAX_SUGGESTIONS
+        const lines: RhymeCheckLine[] = []
+        const stanzaRhymes: Record<string, RhymeScheme>[] = []
+        stanzas.forEach((stanza, stanzaIndex) => {
+            const letters = RhymePlanner.parsePattern(options.pattern, stanza.length)
+            const rhymedLetters = RhymePlanner.getRhymedLetters(letters)
+            const endings = stanza.map((line) => this.findEndingWord(line))
+
+            const rhymes: Record<string, RhymeScheme> = {}
+            rhymedLetters.forEach((letter, letterIndex) => {
+                const rhyme =
+                    stanzaIndex === 0 && letterIndex === 0 && options.rhymeScheme
+                        ? options.rhymeScheme
+                        : this.getMajorityVowel(
+                              endings
+                                  .filter((_, index) => letters[index] === letter)
+                                  .map((ending) => ending?.vowels ?? [])
+                          )
+                if (rhyme) {
+                    rhymes[letter] = rhyme
+                }
+            })
+            stanzaRhymes.push(rhymes)
+
+            stanza.forEach((line, index) => {
+                const ending = endings[index]
+                const letter = rhymedLetters.includes(letters[index]) ? letters[index] : '-'
+                const expectedRhyme: RhymeScheme | undefined = rhymes[letter]
+                const status: RhymeCheckLine['status'] =
+                    letter === '-'
+                        ? 'unrhymed'
+                        : !ending || !expectedRhyme
+                          ? 'unknown'
+                          : ending.vowels.includes(expectedRhyme)
+                            ? 'rhymed'
+                            : 'broken'
+
+                lines.push({
+                    lineIndex: lines.length,
+                    stanzaIndex,
+                    line,
+                    ...(ending && { word: ending.word }),
+                    vowels: ending?.vowels ?? [],
+                    ...(ending?.particle && { particle: ending.particle }),
+                    letter,
+                    ...(expectedRhyme && { expectedRhyme }),
+                    status,
+                    suggestions: status === 'broken' && ending ? this.suggest(ending, expectedRhyme, limit) : [],
+                })
+            })
+        })
+
+        return { stanzaRhymes, lines }
+    }
+
+    /**
+     * 找出诗句的句末词：去掉句尾的标点，跳过语气词后，取词库中与句尾匹配的最长的词
+     * @param line 诗句
+     * @param skipParticles 是否跳过句尾的语气词（跳过后找不到词时仍按原句尾查找）
+     * @returns 句末词，句尾不是词库中的词时返回 null
+     */
+    public findEndingWord(line: string, skipParticles = true): EndingWord | null {
+        const characters = [...line.replace(/[\p{P}\s]+$/u, '')]
+
+        let end = characters.length
+        while (skipParticles && end > 1 && TRAILING_PARTICLES.includes(characters[end - 1])) {
+            end--
+        }
+        const ending = this.matchSuffix(characters.slice(0, end))
+        if (ending) {
+            const particle = characters.slice(end).join('')
+            return particle ? { ...ending, particle } : ending
+        }
+        return end < characters.length ? this.matchSuffix(characters) : null
+    }
+
+    /** 在词库中查找与结尾匹配的最长的词 */
+    private matchSuffix(characters: string[]): EndingWord | null {
+        const dictionary = this.getDictionary()
+        for (let length = Math.min(this.maxWordLength, characters.length); length > 0; length--) {
+            const word = characters.slice(characters.length - length).join('')
+            const entry = dictionary.get(word)
+            if (entry) {
+                return { word, vowels: [...entry.vowels], lexicons: [...entry.lexicons] }
+            }
+        }
+        return null
+    }
+
+    /** 取各行韵母中出现最多的一个，相同时取先出现的 */
+    private getMajorityVowel(lineVowels: string[][]): RhymeScheme | undefined {
+        const counts = new Map<string, number>()
+        for (const vowels of lineVowels) {
+            for (const vowel of vowels) {
+                counts.set(vowel, (counts.get(vowel) ?? 0) + 1)
+            }
+        }
+        let majority: string | undefined
+        for (const [vowel, count] of counts) {
+            if (!majority || count > (counts.get(majority) ?? 0)) {
+                majority = vowel
+            }
+        }
+        return majority as RhymeScheme | undefined
+    }
+
+    /** 从句末词所在的词库中找出押该韵的词，字数相同的优先，常用的优先 */
+    private suggest({ word, lexicons }: EndingWord, rhyme: RhymeScheme, limit: number): string[] {
+        const length = [...word].length
+        const candidates = lexicons
+            .flatMap((lexicon) => this.getLexicon(lexicon))
+            .filter((record) => record.vowel === rhyme)
+            .map((record) => ({ text: record.word.replace('/', ''), frequency: record.frequency ?? 0 }))
+            .filter(({ text }) => text !== word)
+            .sort(
+                (a, b) =>
+                    Number([...b.text].length === length) - Number([...a.text].length === length) ||
+                    b.frequency - a.frequency
+            )
+        return [...new Set(candidates.map(({ text }) => text))].slice(0, limit)
+    }
+
+    /** 由五个词库建立词典；分开的动词（如「骑/马」）按全词与后半截查找 */
+    private getDictionary(): Map<string, DictionaryEntry> {
+        if (!this.dictionary) {
+            const dictionary = new Map<string, DictionaryEntry>()
+            for (const lexicon of RHYME_LEXICONS) {
+                for (const record of this.getLexicon(lexicon)) {
+                    const parts = record.word.split('/')
+                    for (const word of new Set([parts.join(''), parts[parts.length - 1]])) {
+                        if (!word) {
+                            continue
+                        }
+                        const entry = dictionary.get(word) ?? { vowels: new Set(), lexicons: new Set() }
+                        if (record.vowel) {
+                            entry.vowels.add(record.vowel)
+                        }
+                        entry.lexicons.add(lexicon)
+                        dictionary.set(word, entry)
+                        this.maxWordLength = Math.max(this.maxWordLength, [...word].length)
+                    }
+                }
+            }
+            this.dictionary = dictionary
+        }
+        return this.dictionary
+    }
+
+    /** 获取词库中的词汇 */
+    private getLexicon(lexicon: LexiconName): WordRecord[] {
+        switch (lexicon) {
+            case 'nouns':
+                return this.dataService.getNouns()
+            case 'adjectives':
+                return this.dataService.getAdjectives()
+            case 'intransitiveVerbs':
+                return this.dataService.getIntransitiveVerbs()
+            case 'transitiveVerbs':
+                return this.dataService.getTransitiveVerbs()
+            default:
+                return this.dataService.getInterjections()
+        }
+    }
+}
@@ -0,0 +1,194 @@
+import type { PoetryGenerationOptions, RandomSource, RhymePlan, RhymeScheme } from '@/types'
+import type { DataService } from './data-service'
+import { SeededRandom } from './random-source'
+
+/** 全部韵脚 */
+export const RHYME_SCHEMES: RhymeScheme[] = [
+    'a',
+    'ai',
+    'an',
+    'ang',
+    'ao',
+    'e',
+    'ei',
+    'en',
+    'eng',
+    'er',
+    'i',
+    'ie',
+    'ong',
+    'ou',
+    'r',
+    'u',
+    'v',
+]
+
+/** 内置的押韵格式名称 */
+export const NAMED_RHYME_PATTERNS = ['AABB', 'ABAB', 'ABCB', 'monorhyme'] as const
+
+/** 自动选韵时，每个实词词库中至少需要的押韵词数量 */
+const MIN_WORDS_PER_LEXICON = 30
+
+/**
+ * 押韵规划器 - 根据押韵格式为每段、每行分配韵脚
+ * 格式中同一字母的诗句押同一个韵，“-”和段内只出现一次的字母不押韵（单行的段落除外）
+ */
+export class RhymePlanner {
+    private dataService: DataService
+    private random: RandomSource
+
+    constructor(dataService: DataService, random: RandomSource = new SeededRandom()) {
+        this.dataService = dataService
+        this.random = random
+    }
+
+    /**
+     * 为诗歌规划押韵
+     * @param options 生成选项
+     * @returns 押韵方案
+     */
+    public planRhymes(options: PoetryGenerationOptions): RhymePlan {
+        const letters = RhymePlanner.parsePattern(options.rhymePattern, options.linesPerParagraph)
+        const rhymedLetters = RhymePlanner.getRhymedLetters(letters)
+        const availableRhymes = this.getAvailableRhymes()
+        const stanzaRhymes: Record<string, RhymeScheme>[] = []
+
+        for (let paragraphIndex = 0; paragraphIndex < options.paragraphCount; paragraphIndex++) {
+            // 不换韵时，后续段落沿用第一段的韵脚
+            if (paragraphIndex > 0 && !options.rhymeChange) {
+                stanzaRhymes.push(stanzaRhymes[0])
+                continue
+            }
+
+            const previousRhymes = paragraphIndex > 0 ? Object.values(stanzaRhymes[paragraphIndex - 1]) : []
+            const rhymes: Record<string, RhymeScheme> = {}
+
+            rhymedLetters.forEach((letter, letterIndex) => {
+                if (paragraphIndex === 0 && letterIndex === 0 && options.rhymeScheme) {
+                    // 指定的韵脚用于第一段的第一组押韵句
+                    rhymes[letter] = options.rhymeScheme
+                } else {
+                    rhymes[letter] = this.pickRhyme(availableRhymes, [...Object.values(rhymes), ...previousRhymes])
+                }
+            })
+
+            stanzaRhymes.push(rhymes)
+        }
+
+        const lineLetters: string[] = []
+        const lineRhymes: RhymeScheme[] = []
+
+        for (const rhymes of stanzaRhymes) {
+            for (const letter of letters) {
+                lineLetters.push(letter)
+                lineRhymes.push(rhymes[letter] ?? '')
+            }
+        }
+
+        return {
+            pattern: letters.join(''),
+            lineLetters,
+            lineRhymes,
+            stanzaRhymes,
+        }
+    }
+
+    /**
+     * 获取词库中押韵词足够多、适合自动选用的韵脚
+     * @returns 按词汇总数从多到少排列的韵脚
+     */
+    public getAvailableRhymes(): RhymeScheme[] {
+        const lexicons = [
+            this.dataService.getNouns(),
+            this.dataService.getAdjectives(),
+            this.dataService.getIntransitiveVerbs(),
+            this.dataService.getTransitiveVerbs(),
+        ]
+        const counts = new Map<RhymeScheme, number[]>()
+
+        lexicons.forEach((words, lexiconIndex) => {
+            for (const word of words) {
+                const vowel = word.vowel as RhymeScheme
+                if (!vowel) {
+                    continue
+                }
+                const lexiconCounts = counts.get(vowel) ?? lexicons.map(() => 0)
+                lexiconCounts[lexiconIndex]++
+                counts.set(vowel, lexiconCounts)
+            }
+        })
+
+        return [...counts.entries()]
+            .filter(([, lexiconCounts]) => lexiconCounts.every((count) => count >= MIN_WORDS_PER_LEXICON))
+            .sort(([, a], [, b]) => b.reduce((sum, count) => sum + count) - a.reduce((sum, count) => sum + count))
+            .map(([vowel]) => vowel)
+    }
+
+    /** 从可用韵脚中随机选择一个，尽量避开已用过的韵脚 */
+    private pickRhyme(availableRhymes: RhymeScheme[], usedRhymes: RhymeScheme[]): RhymeScheme {
+        const unusedRhymes = availableRhymes.filter((rhyme) => !usedRhymes.includes(rhyme))
+        const candidates = unusedRhymes.length > 0 ? unusedRhymes : availableRhymes
+
+        if (candidates.length === 0) {
+            throw new Error('词库中没有足够的押韵词汇')
+        }
+        return candidates[Math.floor(this.random.next() * candidates.length)]
+    }
+
+    /**
+     * 将押韵格式解析为段内每行的字母
+     * 支持内置格式名称和自定义字母串（如 ABAC、A-A-），格式短于段落行数时循环使用
+     * 未指定格式时沿用原程序的规则：偶数行的段落第1行和偶数行押韵，奇数行的段落奇数行押韵
+     * @param pattern 押韵格式（可选）
+     * @param linesPerParagraph 每段行数
+     * @returns 段内每行的字母
+     */
+    public static parsePattern(pattern: string | undefined, linesPerParagraph: number): string[] {
+        const normalizedPattern = pattern?.trim() ?? ''
+
+        if (normalizedPattern === '') {
+            return RhymePlanner.getDefaultPattern(linesPerParagraph)
+        }
+
+        if (normalizedPattern.toLowerCase() === 'monorhyme') {
+            return Array.from({ length: linesPerParagraph }, () => 'A')
+        }
+
+        if (!/^[A-Za-z-]+$/.test(normalizedPattern)) {
+            throw new Error(`无效的押韵格式: ${pattern}`)
+        }
+
+        const letters = normalizedPattern.toUpperCase().split('')
+        return Array.from({ length: linesPerParagraph }, (_, index) => letters[index % letters.length])
+    }
+
+    /** 生成原程序默认的押韵格式，押韵行记为 A，不押韵的行记为 - */
+    private static getDefaultPattern(linesPerParagraph: number): string[] {
+        const letters: string[] = []
+
+        for (let lineIndex = 1; lineIndex <= linesPerParagraph; lineIndex++) {
+            const needsRhyme =
+                linesPerParagraph % 2 === 0
+                    ? // 偶数行：第1行和偶数行押韵
+                      lineIndex === 1 || lineIndex % 2 === 0
+                    : // 奇数行：奇数行押韵
+                      (lineIndex + 1) % 2 === 0
+            letters.push(needsRhyme ? 'A' : '-')
+        }
+
+        return letters
+    }
+
+    /**
+     * 获取段内需要押韵的字母（按首次出现的顺序）
+     * @param letters 段内每行的字母
+     * @returns 需要押韵的字母
+     */
+    public static getRhymedLetters(letters: string[]): string[] {
+        const uniqueLetters = [...new Set(letters)].filter((letter) => letter !== '-')
+        if (letters.length === 1) {
+            return uniqueLetters
+        }
+        return uniqueLetters.filter((letter) => letters.filter((item) => item === letter).length > 1)
+    }
+}
@@ -0,0 +1,72 @@
+import type { LineTrace } from '@/types'
+
+/**
+ * 选词历史 - 记录诗中各行用过的词汇，用于避免重复用词
+ * 同一词汇在冷却行数之内不再出现，冷却行数为 0 时不限制；
+ * 另可附带最近存档的诗中用过的词汇，供选词时回避
+ */
+export class SelectionHistory {
+    private lineWords: string[][] = []
+    private cooldown: number
+    /** 最近存档的诗中用过的词汇 */
+    public readonly archivedWords: ReadonlySet<string>
+
+    constructor(cooldown: number = Number.POSITIVE_INFINITY, archivedWords: Iterable<string> = []) {
+        this.cooldown = cooldown
+        this.archivedWords = new Set(archivedWords)
+    }
+
+    /** 根据诗歌的生成轨迹重建选词历史 */
+    public static fromTrace(trace: LineTrace[], cooldown?: number, archivedWords?: Iterable<string>): SelectionHistory {
+        const history = new SelectionHistory(cooldown, archivedWords)
+        trace.forEach((lineTrace, lineIndex) => {
+            for (const slot of lineTrace.slots) {
+                history.record(lineIndex, slot.selection.record?.word)
+            }
+        })
+        return history
+    }
+
+    /** 记录某行用过的词汇 */
+    public record(lineIndex: number, word: string | undefined): void {
+        if (!word) {
+            return
+        }
+        if (!this.lineWords[lineIndex]) {
+            this.lineWords[lineIndex] = []
+        }
+        this.lineWords[lineIndex].push(word)
+    }
+
+    /** 清除某行的记录（重写该行时使用） */
+    public clearLine(lineIndex: number): void {
+        this.lineWords[lineIndex] = []
+    }
+
+    /** 移除某行中的一个词汇记录（重写单个词时使用） */
+    public forget(lineIndex: number, word: string | undefined): void {
+        const words = this.lineWords[lineIndex]
+        const position = word ? (words?.indexOf(word) ?? -1) : -1
+        if (position !== -1) {
+            words.splice(position, 1)
+        }
+    }
+
+    /** 获取在指定行需要回避的词汇，即冷却行数之内（前后均计）用过的词 */
+    public getUsedWords(lineIndex: number): Set<string> {
+        const usedWords = new Set<string>()
+        this.lineWords.forEach((words, index) => {
+            if (words && Math.abs(index - lineIndex) < this.cooldown) {
+                for (const word of words) {
+                    usedWords.add(word)
+                }
+            }
+        })
+        return usedWords
+    }
+
+    /** 按行序获取全部用过的词汇 */
+    public getAllWords(): string[] {
+        return this.lineWords.flatMap((words) => words ?? [])
+    }
+}
@@ -1,62 +1,78 @@
-import type { PoeticStyle, RhymeScheme, SentenceStructure, WorkingStructure } from '@/types'
+import type { RandomSource, RhymeScheme, SentenceStructure, StyleProfile, WorkingStructure } from '@/types'
 import type { DataService } from './data-service'
+import { SeededRandom } from './random-source'
+
+/** 风格配置未指定时，名词扩展出形容词、可加叹词的句型加叹词的概率（与原程序奔放风格相同） */
+const DEFAULT_ATTRIBUTE_PROBABILITY = 0.5
+const DEFAULT_INTERJECTION_PROBABILITY = 0.5
 
 /**
  * 句型结构生成器 - 负责创建诗歌的句型结构
  * 还原自原始 Visual FoxPro 的 create_structure 过程
  */
 export class StructureGenerator {
-    private dataService: DataService
+    protected dataService: DataService
+    protected random: RandomSource
 
-    constructor(dataService: DataService) {
+    constructor(dataService: DataService, random: RandomSource = new SeededRandom()) {
         this.dataService = dataService
+        this.random = random
     }
 
     /**
      * 创建诗歌结构
+     * 与原程序一致，先为一段选好句型，再复制到每个段落
      * @param paragraphCount 段数
      * @param linesPerParagraph 每段行数
-     * @param style 诗歌风格
-     * @param rhymeScheme 韵脚（可选）
+     * @param style 风格配置
+     * @param lineRhymes 全诗每行的韵脚（可选，空字符串表示该行不押韵）
+     * @param couplet 是否对仗（段内相邻两行共用同一句型）
      * @returns 工作结构数组
      */
     public createStructure(
         paragraphCount: number,
         linesPerParagraph: number,
-        style: PoeticStyle,
-        rhymeScheme?: RhymeScheme
+        style: StyleProfile,
+        lineRhymes: RhymeScheme[] = [],
+        couplet = false
     ): WorkingStructure[] {
         const sentenceStructures = this.dataService.getSentenceStructures()
-        const structureCount = sentenceStructures.length
 
         // 生成临时结构
         const tempStructures: SentenceStructure[] = []
 
-        for (let lineIndex = 1; lineIndex <= linesPerParagraph; lineIndex++) {
-            const needsRhyme = this.shouldLineRhyme(lineIndex, linesPerParagraph)
-            let selectedStructure: SentenceStructure
-
-            if (style === 'quiet') {
-                // 宁静风格：选择原始结构数小于10的句型
-                selectedStructure = this.selectQuietStructure(sentenceStructures, needsRhyme, rhymeScheme)
-            } else {
-                // 奔放风格：可以选择任意句型
-                selectedStructure = this.selectBoldStructure(sentenceStructures, needsRhyme, rhymeScheme)
+        for (let lineIndex = 0; lineIndex < linesPerParagraph; lineIndex++) {
+            // 对仗的第二行沿用第一行的句型
+            if (couplet && lineIndex % 2 === 1) {
+                tempStructures.push(tempStructures[lineIndex - 1])
+                continue
             }
 
-            tempStructures.push(selectedStructure)
+            // 同一位置的句型要满足每一段在该位置（对仗时包括下一行）的韵脚
+            const pairedLines = couplet && lineIndex + 1 < linesPerParagraph ? [lineIndex, lineIndex + 1] : [lineIndex]
+            const rhymeSchemes: RhymeScheme[] = []
+            for (let paragraphIndex = 0; paragraphIndex < paragraphCount; paragraphIndex++) {
+                for (const pairedLine of pairedLines) {
+                    const rhymeScheme = lineRhymes[paragraphIndex * linesPerParagraph + pairedLine]
+                    if (rhymeScheme) {
+                        rhymeSchemes.push(rhymeScheme)
+                    }
+                }
+            }
+            tempStructures.push(this.selectStructure(sentenceStructures, style, rhymeSchemes))
         }
 
         // 为每个段落复制结构并处理成工作结构
         const workingStructures: WorkingStructure[] = []
 
-        for (let paragraphIndex = 1; paragraphIndex <= paragraphCount; paragraphIndex++) {
-            for (let lineIndex = 1; lineIndex <= linesPerParagraph; lineIndex++) {
-                const baseStructure = tempStructures[lineIndex - 1]
-                const needsRhyme = this.shouldLineRhyme(paragraphIndex, paragraphCount)
+        for (let paragraphIndex = 0; paragraphIndex < paragraphCount; paragraphIndex++) {
+            for (let lineIndex = 0; lineIndex < linesPerParagraph; lineIndex++) {
+                const baseStructure = tempStructures[lineIndex]
+                const rhymeScheme = lineRhymes[paragraphIndex * linesPerParagraph + lineIndex] ?? ''
 
                 // 处理结构元素，扩展复合结构
-                const processedStructure = this.processStructureElements(baseStructure, needsRhyme, rhymeScheme)
+                const processedStructure = this.processStructureElements(baseStructure, style, rhymeScheme)
+                processedStructure.sourceIndex = this.getSourceIndex(sentenceStructures, baseStructure)
 
                 workingStructures.push(processedStructure)
             }
@@ -65,122 +81,268 @@ export class StructureGenerator {
         return workingStructures
     }
 
-    /** 判断是否需要押韵 */
-    private shouldLineRhyme(lineIndex: number, totalLines: number): boolean {
-        if (totalLines % 2 === 0) {
-            // 偶数行：第1行和偶数行押韵
-            return lineIndex === 1 || lineIndex % 2 === 0
-        }
-        // 奇数行：奇数行押韵
-        return (lineIndex + 1) % 2 === 0
+    /**
+     * 为单行重新创建结构，用于重写单行诗句
+     * @param style 风格配置
+     * @param rhymeScheme 该行的韵脚（可选，空字符串表示不押韵）
+     * @returns 工作结构
+     */
+    public createLineStructure(style: StyleProfile, rhymeScheme: RhymeScheme = ''): WorkingStructure {
+        const sentenceStructures = this.dataService.getSentenceStructures()
+        const baseStructure = this.selectStructure(sentenceStructures, style, rhymeScheme ? [rhymeScheme] : [])
+
+        const processedStructure = this.processStructureElements(baseStructure, style, rhymeScheme)
+        processedStructure.sourceIndex = this.getSourceIndex(sentenceStructures, baseStructure)
+
+        return processedStructure
+    }
+
+    /** 获取句型在句型库中的序号，不是来自句型库的句型（如由文法生成）没有序号 */
+    private getSourceIndex(structures: SentenceStructure[], structure: SentenceStructure): number | undefined {
+        const index = structures.indexOf(structure)
+        return index === -1 ? undefined : index
     }
 
-    /** 选择宁静风格的句型结构 */
-    private selectQuietStructure(
+    /**
+     * 按风格选择句型结构
+     * 风格配置有标点、叹词权重时按权重抽样，否则等概率抽取
+     */
+    protected selectStructure(
         structures: SentenceStructure[],
-        needsRhyme: boolean,
-        rhymeScheme?: RhymeScheme
+        style: StyleProfile,
+        rhymeSchemes: RhymeScheme[]
     ): SentenceStructure {
+        if (style.punctuationWeights || style.interjectionWeight !== undefined) {
+            return this.selectWeightedStructure(structures, style, rhymeSchemes)
+        }
+
         let attempts = 0
         const maxAttempts = 100 // 防止无限循环
 
         while (attempts < maxAttempts) {
-            const randomIndex = Math.floor(Math.random() * structures.length)
+            const randomIndex = Math.floor(this.random.next() * structures.length)
             const structure = structures[randomIndex]
 
-            // 宁静风格：不选择原始结构数大于等于10的句型
-            const isQuiet = structure.elements[9] === '' // J10字段为空表示结构数小于10
-
-            if (!isQuiet) {
-                attempts++
-                continue
-            }
-
-            // 检查韵脚要求
-            if (needsRhyme && rhymeScheme && structure.compoundStructureCount === 0) {
-                if (structure.limitedRhyme !== rhymeScheme && structure.limitedRhyme !== 'E') {
-                    attempts++
-                    continue
-                }
+            // 检查句型长度与韵脚要求
+            if (this.matchesStyle(structure, style) && this.matchesRhymes(structure, rhymeSchemes)) {
+                return structure
             }
-
-            return structure
+            attempts++
         }
 
         // 如果无法找到合适的结构，返回第一个结构
         return structures[0]
     }
 
-    /** 选择奔放风格的句型结构 */
-    private selectBoldStructure(
+    /** 在满足风格与韵脚要求的句型中按权重抽样 */
+    private selectWeightedStructure(
         structures: SentenceStructure[],
-        needsRhyme: boolean,
-        rhymeScheme?: RhymeScheme
+        style: StyleProfile,
+        rhymeSchemes: RhymeScheme[]
     ): SentenceStructure {
-        let attempts = 0
-        const maxAttempts = 100 // 防止无限循环
+        const candidates = structures.filter(
+            (structure) => this.matchesStyle(structure, style) && this.matchesRhymes(structure, rhymeSchemes)
+        )
+        const weights = candidates.map((structure) => StructureGenerator.getStructureWeight(structure, style))
+        const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
 
-        while (attempts < maxAttempts) {
-            const randomIndex = Math.floor(Math.random() * structures.length)
-            const structure = structures[randomIndex]
+        // 如果无法找到合适的结构，返回第一个结构
+        if (totalWeight === 0) {
+            return structures[0]
+        }
 
-            // 检查韵脚要求
-            if (needsRhyme && rhymeScheme && structure.compoundStructureCount === 0) {
-                if (structure.limitedRhyme !== rhymeScheme && structure.limitedRhyme !== 'E') {
-                    attempts++
-                    continue
-                }
+        let threshold = this.random.next() * totalWeight
+        for (let i = 0; i < candidates.length; i++) {
+            threshold -= weights[i]
+            if (threshold < 0) {
+                return candidates[i]
             }
+        }
+        return candidates[candidates.length - 1]
+    }
 
-            return structure
+    /** 计算句型在风格配置下的抽样权重 */
+    public static getStructureWeight(structure: SentenceStructure, style: StyleProfile): number {
+        let weight = 1
+        const text = structure.elements.join('') + structure.punctuation
+
+        for (const [mark, markWeight] of Object.entries(style.punctuationWeights ?? {})) {
+            if (text.includes(mark)) {
+                weight *= markWeight
+            }
         }
+        // 内部需求为2的句型句首必加叹词
+        if (
+            style.interjectionWeight !== undefined &&
+            (structure.internalNeed === 2 || structure.elements.some((element) => element.toUpperCase() === 'TT'))
+        ) {
+            weight *= style.interjectionWeight
+        }
+        return weight
+    }
 
-        // 如果无法找到合适的结构，返回第一个结构
-        return structures[0]
+    /** 检查句型长度（句型库中的元素个数）是否在风格允许的范围内 */
+    protected matchesStyle(structure: SentenceStructure, style: StyleProfile): boolean {
+        const { min = 1, max = Number.POSITIVE_INFINITY } = style.structureLength ?? {}
+        const emptyIndex = structure.elements.indexOf('')
+        const length = emptyIndex === -1 ? structure.elements.length : emptyIndex
+        return length >= min && length <= max
+    }
+
+    /**
+     * 检查句型是否满足韵脚要求
+     * 复合结构数为0的句型韵脚固定，只能用于与其限制韵脚相同的押韵行；限制韵脚为E的句型可以任意押韵
+     */
+    protected matchesRhymes(structure: SentenceStructure, rhymeSchemes: RhymeScheme[]): boolean {
+        if (structure.compoundStructureCount !== 0 || structure.limitedRhyme === 'E') {
+            return true
+        }
+        return rhymeSchemes.every((rhymeScheme) => structure.limitedRhyme === rhymeScheme)
     }
 
-    /** 处理结构元素，扩展复合结构 */
+    /**
+     * 处理结构元素：按内部需求在句首加叹词，再逐遍扩展复合结构，同时跟踪押韵元素的位置
+     * 与原程序 create_structure 一致，每一遍扩展中：
+     * - Mm、Mc、Mr 按风格的概率扩展为「XX 的 名词」，否则为相应的名词
+     * - XX 多为形容词，也会扩展为「Dd 着」「被 DJ」「DJ 着 MM」
+     * - DB 一半为不及物动词，一半扩展为「DJ Mm」
+     * - 「Dd 着」多扩展为「DV 着 DO」，否则为简单动词；押韵行以「Dd 着（的）」结尾时必须扩展，并去掉句尾的「的」
+     * - 「Dd 得」多扩展为「的 DO DV 得」，否则为简单动词
+     * 扩展出新的复合结构时再扩展一遍
+     */
     private processStructureElements(
         structure: SentenceStructure,
-        needsRhyme: boolean,
-        rhymeScheme?: RhymeScheme
+        style: StyleProfile,
+        rhymeScheme: RhymeScheme
     ): WorkingStructure {
-        const processedElements: string[] = []
-
-        for (let i = 0; i < 27; i++) {
-            const element = structure.elements[i] || ''
-
-            if (element === '') {
-                break
-            }
-
-            // 处理特殊的复合结构
-            if (element === 'Dd' && structure.limitedRhyme === 'E') {
-                // 扩展为 DV+着+DO 结构
-                processedElements.push('DV', '着', 'DO')
-            } else if (element.length === 2 && element[0] === element[0].toLowerCase()) {
-                // 处理小写开头的元素（如：Mm）
-                processedElements.push(element.toUpperCase())
-            } else {
-                processedElements.push(element)
+        const emptyIndex = structure.elements.indexOf('')
+        let elements = emptyIndex === -1 ? [...structure.elements] : structure.elements.slice(0, emptyIndex)
+        let compoundStructureCount = structure.compoundStructureCount
+
+        // 内部需求为2时句首必加叹词，为1时按风格的概率加
+        const interjectionProbability = style.interjectionProbability ?? DEFAULT_INTERJECTION_PROBABILITY
+        if (
+            structure.internalNeed === 2 ||
+            (structure.internalNeed === 1 && this.random.next() < interjectionProbability)
+        ) {
+            elements = ['TT', '，', ...elements]
+            if (compoundStructureCount !== 0) {
+                compoundStructureCount += 2
             }
         }
 
-        // 补足到30个元素
-        while (processedElements.length < 30) {
-            processedElements.push('')
+        while (elements.some((_, index) => this.isExpandable(elements, index))) {
+            ;({ elements, compoundStructureCount } = this.expandElements(
+                elements,
+                compoundStructureCount,
+                style,
+                rhymeScheme !== ''
+            ))
         }
 
         return {
-            compoundStructureCount: structure.compoundStructureCount,
+            compoundStructureCount,
             punctuation: structure.punctuation,
-            elements: processedElements,
+            elements,
+            needsRhyme: rhymeScheme !== '',
+            rhymeScheme: rhymeScheme || undefined,
         }
     }
 
+    /** 检查元素是否还需要扩展 */
+    private isExpandable(elements: string[], index: number): boolean {
+        const element = elements[index]
+        if (element === 'Dd') {
+            return elements[index + 1] === '着' || elements[index + 1] === '得'
+        }
+        return element === 'Mm' || element === 'Mc' || element === 'Mr' || element === 'XX' || element === 'DB'
+    }
+
+    /**
+     * 扩展一遍复合结构
+     * 押韵元素之前的扩展使其位置后移；扩展押韵元素本身时，押韵位置移到扩展后承担韵脚的元素
+     */
+    private expandElements(
+        elements: string[],
+        compoundStructureCount: number,
+        style: StyleProfile,
+        needsRhyme: boolean
+    ): { elements: string[]; compoundStructureCount: number } {
+        const attributeProbability = style.attributeProbability ?? DEFAULT_ATTRIBUTE_PROBABILITY
+        const expanded: string[] = []
+        let count = compoundStructureCount
+        let index = 0
+
+        /**
+         * 用 replacement 替换从 index 起的 consumed 个元素
+         * @param rhymeOffset 扩展押韵元素时，承担韵脚的元素在 replacement 中的位置
+         */
+        const replace = (replacement: string[], consumed: number, rhymeOffset: number): void => {
+            if (compoundStructureCount !== 0) {
+                if (index < compoundStructureCount - 1) {
+                    count += replacement.length - consumed
+                } else if (index === compoundStructureCount - 1) {
+                    count += rhymeOffset
+                }
+            }
+            expanded.push(...replacement)
+            index += consumed
+        }
+        while (index < elements.length) {
+            const element = elements[index]
+            const next = elements[index + 1]
+
+            if (element === 'Mm' || element === 'Mc' || element === 'Mr') {
+                const noun = element.toUpperCase()
+                if (this.random.next() < attributeProbability) {
+                    replace(['XX', '的', noun], 1, 2)
+                } else {
+                    replace([noun], 1, 0)
+                }
+            } else if (element === 'XX') {
+                const chance = this.random.next()
+                if (chance < 0.75) {
+                    replace(['XA'], 1, 0)
+                } else if (chance < 0.9) {
+                    replace(['Dd', '着'], 1, 0)
+                } else if (chance < 0.95) {
+                    replace(['被', 'DJ'], 1, 1)
+                } else {
+                    replace(['DJ', '着', 'MM'], 1, 2)
+                }
+            } else if (element === 'DB') {
+                if (this.random.next() > 0.5) {
+                    replace(['DD'], 1, 0)
+                } else {
+                    replace(['DJ', 'Mm'], 1, 1)
+                }
+            } else if (element === 'Dd' && next === '着') {
+                // 押韵行以「Dd 着」或「Dd 着 的」结尾时，扩展后的宾语承担韵脚，句尾的「的」去掉
+                const rest = elements.slice(index + 2)
+                const endsLine = needsRhyme && (rest.length === 0 || (rest.length === 1 && rest[0] === '的'))
+                const consumed = endsLine ? 2 + rest.length : 2
+                if (this.random.next() > 0.8 && !endsLine) {
+                    replace(['DI'], 1, 0)
+                } else {
+                    replace(['DV', '着', 'DO'], consumed, 0)
+                }
+            } else if (element === 'Dd' && next === '得') {
+                if (this.random.next() > 0.8) {
+                    replace(['DI'], 1, 0)
+                } else {
+                    replace(['的', 'DO', 'DV', '得'], 2, 1)
+                }
+            } else {
+                replace([element], 1, 0)
+            }
+        }
+
+        return { elements: expanded, compoundStructureCount: count }
+    }
+
     /** 随机选择句型结构 */
     private getRandomStructure(structures: SentenceStructure[]): SentenceStructure {
-        const randomIndex = Math.floor(Math.random() * structures.length)
+        const randomIndex = Math.floor(this.random.next() * structures.length)
         return structures[randomIndex]
     }
 }
@@ -0,0 +1,329 @@
+import type { RhymeScheme, SentenceStructure, StructureGrammar, StyleProfile } from '@/types'
+import { StructureGenerator } from './structure-generator'
+import { parseStructureTemplate, STRUCTURE_TAGS, stringifyStructureTemplate } from './structure-template'
+
+/** 由句型库自动转换而来的规则名，文法中可以直接引用 */
+export const LIBRARY_RULE = 'LIBRARY'
+
+/** 规则展开的最大层数 */
+const MAX_GRAMMAR_DEPTH = 10
+
+/** 可省略的部分被保留的概率 */
+const OPTIONAL_PROBABILITY = 0.5
+
+/** 为一行展开文法时最多尝试的次数 */
+const MAX_EXPANSION_ATTEMPTS = 100
+
+/** 规则右侧的组成部分：模板文字、对其他规则的引用或可省略的部分 */
+type GrammarNode =
+    | { type: 'text'; text: string }
+    | { type: 'rule'; name: string }
+    | { type: 'optional'; nodes: GrammarNode[] }
+
+/** 规则的一个备选 */
+interface GrammarAlternative {
+    source: string
+    weight: number
+    nodes: GrammarNode[]
+}
+
+/** 解析后的文法，附带每条规则展开完毕至少需要的层数 */
+interface CompiledGrammar {
+    start: string
+    rules: Map<string, GrammarAlternative[]>
+    heights: Map<string, number>
+}
+
+/**
+ * 把句型库转换为文法：每个句型写成模板，作为起始规则 S 的一个备选，相同的句型合并为更高的权重
+ * @param structures 句型库
+ * @returns 文法
+ */
+export function convertStructuresToGrammar(structures: SentenceStructure[]): StructureGrammar {
+    const weights = new Map<string, number>()
+    for (const structure of structures) {
+        const template = stringifyStructureTemplate(structure)
+        weights.set(template, (weights.get(template) ?? 0) + 1)
+    }
+    const alternatives = [...weights].map(([template, weight]) => (weight > 1 ? `${template}*${weight}` : template))
+    return { start: 'S', rules: { S: alternatives.join(' | ') } }
+}
+
+/**
+ * 文法句型生成器 - 按风格配置中的文法展开句型，再与句型库中的句型一样扩展复合结构
+ * 展开结果不满足风格或韵脚要求时重新展开；超过最大层数时只选能尽快结束的备选，并省略可省略的部分
+ */
+export class GrammarStructureGenerator extends StructureGenerator {
+    /** 已解析的文法 */
+    private compiledGrammars = new WeakMap<StructureGrammar, CompiledGrammar>()
+
+    /** 展开文法得到满足风格与韵脚要求的句型，尝试多次仍不满足时改从句型库中选择 */
+    protected override selectStructure(
+        structures: SentenceStructure[],
+        style: StyleProfile,
+        rhymeSchemes: RhymeScheme[]
+    ): SentenceStructure {
+        if (!style.grammar) {
+            return super.selectStructure(structures, style, rhymeSchemes)
+        }
+        const grammar = this.compile(style.grammar, structures)
+
+        for (let attempt = 0; attempt < MAX_EXPANSION_ATTEMPTS; attempt++) {
+            const structure = this.expand(grammar)
+            if (this.matchesStyle(structure, style) && this.matchesRhymes(structure, rhymeSchemes)) {
+                return structure
+            }
+        }
+        return super.selectStructure(structures, style, rhymeSchemes)
+    }
+
+    /** 展开文法的起始规则，得到一个句型 */
+    private expand(grammar: CompiledGrammar): SentenceStructure {
+        return parseStructureTemplate(this.expandRule(grammar, grammar.start, 0))
+    }
+
+    /** 展开一条规则，depth 为已展开的层数 */
+    private expandRule(grammar: CompiledGrammar, name: string, depth: number): string {
+        const alternatives = (grammar.rules.get(name) ?? []).filter(
+            (alternative) => depth + 1 + this.getNodesHeight(grammar, alternative.nodes) <= MAX_GRAMMAR_DEPTH
+        )
+        const totalWeight = alternatives.reduce((sum, alternative) => sum + alternative.weight, 0)
+
+        let threshold = this.random.next() * totalWeight
+        let chosen = alternatives[alternatives.length - 1]
+        for (const alternative of alternatives) {
+            threshold -= alternative.weight
+            if (threshold < 0) {
+                chosen = alternative
+                break
+            }
+        }
+        return this.expandNodes(grammar, chosen.nodes, depth + 1)
+    }
+
+    /** 依次展开规则右侧的各部分 */
+    private expandNodes(grammar: CompiledGrammar, nodes: GrammarNode[], depth: number): string {
+        return nodes
+            .map((node) => {
+                switch (node.type) {
+                    case 'text':
+                        return node.text
+                    case 'rule':
+                        return this.expandRule(grammar, node.name, depth)
+                    default:
+                        // 可省略的部分
+                        return depth + this.getNodesHeight(grammar, node.nodes) <= MAX_GRAMMAR_DEPTH &&
+                            this.random.next() < OPTIONAL_PROBABILITY
+                            ? this.expandNodes(grammar, node.nodes, depth)
+                            : ''
+                }
+            })
+            .join('')
+    }
+
+    /** 展开这些部分（不含可省略的部分）至少还需要的层数 */
+    private getNodesHeight(grammar: CompiledGrammar, nodes: GrammarNode[]): number {
+        return Math.max(
+            0,
+            ...nodes.map((node) =>
+                node.type === 'rule' ? (grammar.heights.get(node.name) ?? Number.POSITIVE_INFINITY) : 0
+            )
+        )
+    }
+
+    /** 解析文法并检查其中的错误，句型库转换为 LIBRARY 规则 */
+    private compile(grammar: StructureGrammar, structures: SentenceStructure[]): CompiledGrammar {
+        const cached = this.compiledGrammars.get(grammar)
+        if (cached) {
+            return cached
+        }
+        const fail = (message: string): never => {
+            throw new Error(`文法无效：${message}`)
+        }
+
+        const sources: Record<string, string> = {
+            [LIBRARY_RULE]: convertStructuresToGrammar(structures).rules.S,
+            ...grammar.rules,
+        }
+        const names = Object.keys(sources).sort((a, b) => b.length - a.length)
+        for (const name of names) {
+            if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) || STRUCTURE_TAGS.includes(name)) {
+                fail(`规则名 ${name} 应为英文标识符，且不能与词性标记相同`)
+            }
+        }
+        if (!(grammar.start in sources)) {
+            fail(`没有起始规则 ${grammar.start}`)
+        }
+
+        const rules = new Map<string, GrammarAlternative[]>()
+        for (const [name, source] of Object.entries(sources)) {
+            rules.set(
+                name,
+                this.splitTopLevel(source, '|').map((text) =>
+                    this.parseAlternative(text, names, (message) => fail(`规则 ${name}：${message}`))
+                )
+            )
+        }
+
+        // 逐轮计算每条规则展开完毕至少需要的层数，算不出的规则只能无限递归
+        const compiled: CompiledGrammar = { start: grammar.start, rules, heights: new Map() }
+        for (let changed = true; changed; ) {
+            changed = false
+            for (const [name, alternatives] of rules) {
+                const height = 1 + Math.min(...alternatives.map(({ nodes }) => this.getNodesHeight(compiled, nodes)))
+                if (height < (compiled.heights.get(name) ?? Number.POSITIVE_INFINITY)) {
+                    compiled.heights.set(name, height)
+                    changed = true
+                }
+            }
+        }
+        for (const name of rules.keys()) {
+            if (!compiled.heights.has(name)) {
+                fail(`规则 ${name} 只能无限递归，无法展开完毕`)
+            }
+        }
+        if ((compiled.heights.get(grammar.start) ?? 0) > MAX_GRAMMAR_DEPTH) {
+            fail(`起始规则 ${grammar.start} 无法在 ${MAX_GRAMMAR_DEPTH} 层之内展开完毕`)
+        }
+
+        // 模板的字段只能写在整个模板末尾，因此可能展开出字段的部分（如 LIBRARY）只能位于备选末尾
+        const fieldRules = new Set<string>()
+        for (let changed = true; changed; ) {
+            changed = false
+            for (const [name, alternatives] of rules) {
+                if (!fieldRules.has(name) && alternatives.some(({ nodes }) => this.hasFields(nodes, fieldRules))) {
+                    fieldRules.add(name)
+                    changed = true
+                }
+            }
+        }
+        for (const [name, alternatives] of rules) {
+            for (const { source, nodes } of alternatives) {
+                if (!this.hasFieldsOnlyAtEnd(nodes, fieldRules)) {
+                    fail(`规则 ${name}：「${source}」中的字段只能写在末尾，可能展开出字段的规则也只能在末尾引用`)
+                }
+            }
+        }
+
+        this.compiledGrammars.set(grammar, compiled)
+        return compiled
+    }
+
+    /** 解析一个备选，如 "[XA的]MM*2" */
+    private parseAlternative(source: string, names: string[], fail: (message: string) => never): GrammarAlternative {
+        let text = source.trim()
+        let weight = 1
+        const weightMatch = text.match(/\*\s*(\d+(?:\.\d+)?)$/)
+        if (weightMatch) {
+            weight = Number(weightMatch[1])
+            text = text.slice(0, weightMatch.index).trim()
+        }
+        if (weight <= 0) {
+            fail(`备选「${source.trim()}」的权重必须大于0`)
+        }
+
+        const stack: GrammarNode[][] = [[]]
+        const pushText = (chunk: string): void => {
+            const nodes = stack[stack.length - 1]
+            const last = nodes[nodes.length - 1]
+            if (last?.type === 'text') {
+                last.text += chunk
+            } else {
+                nodes.push({ type: 'text', text: chunk })
+            }
+        }
+
+        for (let i = 0; i < text.length; i++) {
+            const character = text[i]
+            if (character === '[') {
+                stack.push([])
+            } else if (character === ']') {
+                if (stack.length === 1) {
+                    fail(`「${source.trim()}」中的方括号不配对`)
+                }
+                const nodes = stack.pop() as GrammarNode[]
+                stack[stack.length - 1].push({ type: 'optional', nodes })
+            } else if (character === '{') {
+                // 模板末尾的字段原样保留
+                const end = text.indexOf('}', i)
+                if (end === -1) {
+                    fail(`「${source.trim()}」中的花括号不配对`)
+                }
+                pushText(text.slice(i, end + 1))
+                i = end
+            } else if (/[A-Za-z]/.test(character)) {
+                // 取最长的规则名或词性标记：规则 S 不会吞掉 SS 的前一半，比词性标记长的规则名（如 MMX）仍按规则识别；
+                // 都不是时按两个字母的词性标记处理
+                const name = names.find((item) => text.startsWith(item, i))
+                const tag = STRUCTURE_TAGS.find((item) => text.startsWith(item, i))
+                if (name && (!tag || name.length > tag.length)) {
+                    stack[stack.length - 1].push({ type: 'rule', name })
+                    i += name.length - 1
+                } else {
+                    pushText(text.slice(i, i + 2))
+                    i++
+                }
+            } else {
+                pushText(character)
+            }
+        }
+        if (stack.length !== 1) {
+            fail(`「${source.trim()}」中的方括号不配对`)
+        }
+
+        return { source: source.trim(), weight, nodes: stack[0] }
+    }
+
+    /** 这些部分是否可能展开出模板的字段 */
+    private hasFields(nodes: GrammarNode[], fieldRules: Set<string>): boolean {
+        return nodes.some((node) => {
+            switch (node.type) {
+                case 'text':
+                    return node.text.includes('{')
+                case 'rule':
+                    return fieldRules.has(node.name)
+                default:
+                    return this.hasFields(node.nodes, fieldRules)
+            }
+        })
+    }
+
+    /** 可能展开出字段的部分是否只有最后一个，且字段位于其末尾 */
+    private hasFieldsOnlyAtEnd(nodes: GrammarNode[], fieldRules: Set<string>): boolean {
+        return nodes.every((node, index) => {
+            if (!this.hasFields([node], fieldRules)) {
+                return true
+            }
+            if (index !== nodes.length - 1) {
+                return false
+            }
+            switch (node.type) {
+                case 'text':
+                    return /^[^{}]*\{[^{}]*\}$/.test(node.text)
+                case 'rule':
+                    return true
+                default:
+                    return this.hasFieldsOnlyAtEnd(node.nodes, fieldRules)
+            }
+        })
+    }
+
+    /** 按分隔符拆分，忽略方括号与花括号之内的分隔符 */
+    private splitTopLevel(text: string, separator: string): string[] {
+        const parts: string[] = []
+        let depth = 0
+        let start = 0
+        for (let i = 0; i < text.length; i++) {
+            if (text[i] === '[' || text[i] === '{') {
+                depth++
+            } else if (text[i] === ']' || text[i] === '}') {
+                depth--
+            } else if (text[i] === separator && depth === 0) {
+                parts.push(text.slice(start, i))
+                start = i + 1
+            }
+        }
+        parts.push(text.slice(start))
+        return parts
+    }
+}
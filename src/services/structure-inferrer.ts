@@ -0,0 +1,146 @@
+import type { InferredSegment, LexiconName, PartOfSpeech, StructureInference, WordRecord } from '@/types'
+import type { DataService } from './data-service'
+import { parseStructureTemplate, stringifyStructureTemplate } from './structure-template'
+
+/** 名词按属性细分的词性：人物名词为 MR，地点（含时间）名词为 MC，与选词时的筛选一致 */
+const NOUN_PROPERTY_TAGS: Record<string, PartOfSpeech> = {
+    人物: 'MR',
+    人名: 'MR',
+    时间: 'MC',
+    地点: 'MC',
+    地名: 'MC',
+}
+
+/** 例句中的半角标点换为全角，与句型库一致 */
+const FULL_WIDTH_PUNCTUATION: Record<string, string> = {
+    ',': '，',
+    '!': '！',
+    '?': '？',
+    ';': '；',
+    ':': '：',
+}
+
+/** 词库中的词：词性与来源词库 */
+interface DictionaryEntry {
+    partOfSpeech: PartOfSpeech
+    lexicon: LexiconName
+}
+
+/**
+ * 句型推断器 - 由例句推断句型
+ * 按正向最大匹配把例句切分为词库中的词，词库中的词成为词性标记，其余的字原样作为句型中的文字。
+ * 同一个词出现在多个词库中时，依次取名词、形容词、不及物动词、及物动词；叹词只在句首识别
+ */
+export class StructureInferrer {
+    private dataService: DataService
+    private dictionary: Map<string, DictionaryEntry> | null = null
+    private interjections: Map<string, DictionaryEntry> | null = null
+    private maxWordLength = 0
+
+    constructor(dataService: DataService) {
+        this.dataService = dataService
+    }
+
+    /**
+     * 由例句推断句型
+     * @param sentence 例句，如「我的西奈旷野啊」
+     * @returns 分词结果与推断的句型，句首为叹词时内部需求为 0，其余字段取句型模板的默认值
+     */
+    public infer(sentence: string): StructureInference {
+        const fail = (message: string): never => {
+            throw new Error(`无法由例句推断句型（${sentence}）：${message}`)
+        }
+
+        const segments = this.segment(sentence)
+        if (!segments.some((segment) => segment.partOfSpeech)) {
+            fail('例句中没有词库中的词')
+        }
+        const letter = segments.find((segment) => !segment.partOfSpeech && /[A-Za-z]/.test(segment.text))
+        if (letter) {
+            fail(`「${letter.text}」中的字母无法作为句型中的文字`)
+        }
+
+        const text = segments.map((segment) => segment.partOfSpeech ?? segment.text).join('')
+        const structure = parseStructureTemplate(segments[0].partOfSpeech === 'TT' ? `${text}{need:0}` : text)
+        return { sentence, segments, structure, template: stringifyStructureTemplate(structure) }
+    }
+
+    /**
+     * 按正向最大匹配切分例句
+     * @param sentence 例句
+     * @returns 片段，相邻的非词库文字合为一个片段
+     */
+    public segment(sentence: string): InferredSegment[] {
+        const characters = [...sentence.replace(/\s/gu, '')].map(
+            (character) => FULL_WIDTH_PUNCTUATION[character] ?? character
+        )
+        const segments: InferredSegment[] = []
+
+        for (let i = 0; i < characters.length; ) {
+            const word = this.matchWord(characters, i)
+            if (word) {
+                segments.push(word)
+                i += [...word.text].length
+                continue
+            }
+            const last = segments[segments.length - 1]
+            if (last && !last.partOfSpeech) {
+                last.text += characters[i]
+            } else {
+                segments.push({ text: characters[i] })
+            }
+            i++
+        }
+        return segments
+    }
+
+    /** 从 start 处匹配最长的词库中的词 */
+    private matchWord(characters: string[], start: number): InferredSegment | null {
+        const { dictionary, interjections } = this.getDictionary()
+        for (let length = Math.min(this.maxWordLength, characters.length - start); length > 0; length--) {
+            const text = characters.slice(start, start + length).join('')
+            const entry = (start === 0 ? interjections.get(text) : undefined) ?? dictionary.get(text)
+            if (entry) {
+                return { text, ...entry }
+            }
+        }
+        return null
+    }
+
+    /** 由五个词库建立词典，动词中的分隔符「/」去掉后匹配 */
+    private getDictionary(): {
+        dictionary: Map<string, DictionaryEntry>
+        interjections: Map<string, DictionaryEntry>
+    } {
+        if (!this.dictionary || !this.interjections) {
+            this.dictionary = new Map()
+            this.interjections = new Map()
+            const add = (
+                map: Map<string, DictionaryEntry>,
+                words: WordRecord[],
+                lexicon: LexiconName,
+                tagOf: (record: WordRecord) => PartOfSpeech
+            ): void => {
+                for (const record of words) {
+                    const text = record.word.replace('/', '')
+                    if (text && !map.has(text)) {
+                        map.set(text, { partOfSpeech: tagOf(record), lexicon })
+                        this.maxWordLength = Math.max(this.maxWordLength, [...text].length)
+                    }
+                }
+            }
+
+            add(
+                this.dictionary,
+                this.dataService.getNouns(),
+                'nouns',
+                (record) => NOUN_PROPERTY_TAGS[record.property] ?? 'MM'
+            )
+            add(this.dictionary, this.dataService.getAdjectives(), 'adjectives', () => 'XA')
+            add(this.dictionary, this.dataService.getIntransitiveVerbs(), 'intransitiveVerbs', () => 'DD')
+            add(this.dictionary, this.dataService.getTransitiveVerbs(), 'transitiveVerbs', () => 'DJ')
+            add(this.interjections, this.dataService.getInterjections(), 'interjections', () => 'TT')
+        }
+        return { dictionary: this.dictionary, interjections: this.interjections }
+    }
+}
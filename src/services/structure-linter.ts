@@ -0,0 +1,135 @@
+import type { SentenceStructure, StructureLintIssue, WorkingStructure } from '@/types'
+import type { DataService } from './data-service'
+import { RHYME_SCHEMES } from './rhyme-planner'
+import { LEGACY_STRUCTURE_TAGS, STRUCTURE_TAGS } from './structure-template'
+
+/** 原程序句型库（J1-J27）与工作结构（J1-J30）的字段数 */
+const SENTENCE_SLOT_LIMIT = 27
+const WORKING_SLOT_LIMIT = 30
+
+/** 限制韵脚除韵脚外可取的值：空为不限，E 为可押任意韵，not 为不能用于押韵行 */
+const SPECIAL_LIMITED_RHYMES = ['', 'E', 'not']
+
+/**
+ * 句型检查器 - 检查句型库与工作结构数据中的问题
+ * 未知的词性标记、元素中间的空位、无效的标点与韵脚等为错误；
+ * 已过时的原程序词性标记（Dv、Do）、超出原程序字段数的元素数组等仅为提示；
+ * 句型生成器扩展的复合结构标记（Mm、XX、DB 等）是有效的写法，不作提示
+ */
+export class StructureLinter {
+    private dataService: DataService
+
+    constructor(dataService: DataService) {
+        this.dataService = dataService
+    }
+
+    /**
+     * 检查句型库与工作结构数据
+     * @returns 发现的问题，按文件与句型序号排列
+     */
+    public lint(): StructureLintIssue[] {
+        return [
+            ...this.dataService
+                .getSentenceStructures()
+                .flatMap((structure, index) =>
+                    this.lintStructure(structure, 'sentence-structures.json', index, SENTENCE_SLOT_LIMIT)
+                ),
+            ...this.dataService
+                .getWorkingStructures()
+                .flatMap((structure, index) =>
+                    this.lintStructure(structure, 'working-structures.json', index, WORKING_SLOT_LIMIT)
+                ),
+        ]
+    }
+
+    /**
+     * 检查一个句型
+     * @param structure 句型结构或工作结构
+     * @param file 数据文件名
+     * @param index 句型在文件中的序号
+     * @param slotLimit 原程序的字段数
+     * @returns 发现的问题
+     */
+    public lintStructure(
+        structure: SentenceStructure | WorkingStructure,
+        file: string,
+        index: number,
+        slotLimit: number
+    ): StructureLintIssue[] {
+        const issues: StructureLintIssue[] = []
+        const report = (
+            severity: StructureLintIssue['severity'],
+            code: StructureLintIssue['code'],
+            message: string,
+            elementIndex?: number
+        ): void => {
+            issues.push({ file, index, ...(elementIndex !== undefined && { elementIndex }), severity, code, message })
+        }
+
+        const { elements } = structure
+        const emptyIndex = elements.indexOf('')
+        const length = emptyIndex === -1 ? elements.length : emptyIndex
+        if (length === 0) {
+            report('error', 'empty', '句型中没有任何元素')
+        }
+        if (elements.length > slotLimit) {
+            report('warning', 'too-long', `元素数组有 ${elements.length} 项，超过原程序的 ${slotLimit} 个字段`)
+        }
+
+        const gapIndex = elements.findIndex((element, elementIndex) => elementIndex > length && element !== '')
+        if (gapIndex !== -1) {
+            report('error', 'gap', `第 ${length + 1} 个元素为空，其后的「${elements[gapIndex]}」不会成句`, gapIndex)
+        }
+
+        elements.slice(0, length).forEach((element, elementIndex) => {
+            if (/[A-Za-z]/.test(element)) {
+                if (!STRUCTURE_TAGS.includes(element)) {
+                    report('error', 'unknown-tag', `未知的词性标记 ${element}`, elementIndex)
+                } else if (LEGACY_STRUCTURE_TAGS.includes(element)) {
+                    report('warning', 'legacy-tag', `已过时的原程序词性标记 ${element}`, elementIndex)
+                }
+            } else if (/[\x21-\x2f\x3a-\x40\x5b-\x60\x7b-\x7e]/.test(element)) {
+                report('error', 'invalid-punctuation', `元素中的半角标点「${element}」`, elementIndex)
+            }
+        })
+
+        if (!this.isPunctuation(structure.punctuation)) {
+            report('error', 'invalid-punctuation', `标点「${structure.punctuation}」应该只含全角标点`)
+        }
+
+        const { compoundStructureCount } = structure
+        if (
+            !Number.isInteger(compoundStructureCount) ||
+            compoundStructureCount < 0 ||
+            compoundStructureCount > length
+        ) {
+            report('error', 'invalid-compound-count', `复合结构数 ${compoundStructureCount} 超出了元素个数 ${length}`)
+        } else if (compoundStructureCount > 0 && !STRUCTURE_TAGS.includes(elements[compoundStructureCount - 1])) {
+            report(
+                'warning',
+                'invalid-compound-count',
+                `复合结构数所指的「${elements[compoundStructureCount - 1]}」不是词槽，押韵行将没有押韵的词`,
+                compoundStructureCount - 1
+            )
+        }
+
+        if ('limitedRhyme' in structure) {
+            const { limitedRhyme, internalNeed } = structure
+            if (!SPECIAL_LIMITED_RHYMES.includes(limitedRhyme) && !(RHYME_SCHEMES as string[]).includes(limitedRhyme)) {
+                report('error', 'invalid-rhyme', `未知的限制韵脚「${limitedRhyme}」`)
+            }
+            if (![0, 1, 2].includes(internalNeed)) {
+                report('error', 'invalid-internal-need', `内部需求 ${internalNeed} 应为 0、1 或 2`)
+            }
+        } else if (structure.rhymeScheme && !RHYME_SCHEMES.includes(structure.rhymeScheme)) {
+            report('error', 'invalid-rhyme', `未知的韵脚「${structure.rhymeScheme}」`)
+        }
+
+        return issues
+    }
+
+    /** 检查标点是否只含全角标点（可以为空） */
+    private isPunctuation(text: string): boolean {
+        return /^\p{P}*$/u.test(text) && !/[\x21-\x7e]/.test(text)
+    }
+}
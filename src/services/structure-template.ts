@@ -0,0 +1,167 @@
+import type { SentenceStructure } from '@/types'
+
+/** 原程序的复合结构标记，由句型生成器扩展为简单词性（单独的 Dd 规范化为动词） */
+export const COMPOUND_STRUCTURE_TAGS = ['Mm', 'Mc', 'Mr', 'XX', 'DB', 'Dd']
+
+/** 已过时的原程序词性标记，由引擎规范化为标准词性 */
+export const LEGACY_STRUCTURE_TAGS = ['Dv', 'Do']
+
+/** 句型中可用的词性标记，包括句型库中沿用的原程序标记 */
+export const STRUCTURE_TAGS = [
+    'MM',
+    'MC',
+    'MR',
+    'DD',
+    'DI',
+    'DV',
+    'DO',
+    'DJ',
+    'XA',
+    'TT',
+    'SS',
+    ...COMPOUND_STRUCTURE_TAGS,
+    ...LEGACY_STRUCTURE_TAGS,
+]
+
+/** 未注明时的内部需求：按风格的概率在句首加叹词 */
+const DEFAULT_INTERNAL_NEED = 1
+
+/**
+ * 解析句型模板
+ * 模板由词性标记（两个字母）与其他文字逐字组成，句尾的标点即为句型的标点，
+ * 末尾可用花括号注明其余字段，如 `TT，XA的MM被DJ得DD！{rhyme:E}`：
+ * - rhyme：限制韵脚（如 E、a、not），默认为空
+ * - need：内部需求（0、1、2），默认为 1
+ * - cs：复合结构数，默认为最后一个词性标记的位置；限制韵脚为固定韵母或 not 时默认为 0
+ * - punct：标点，注明时模板末尾与之相同的文字为标点，其前句尾的标点算作元素；须写在最后，其值取到花括号为止（可以含逗号）
+ * @param template 句型模板
+ * @returns 句型结构
+ */
+export function parseStructureTemplate(template: string): SentenceStructure {
+    const fail = (message: string): never => {
+        throw new Error(`句型模板无效（${template}）：${message}`)
+    }
+
+    const match = template.trim().match(/^([^{}]*)(?:\{([^{}]*)\})?$/u)
+    if (!match) {
+        return fail('花括号只能出现在模板末尾')
+    }
+    const fields = parseFields(match[2] ?? '', fail)
+
+    let body = match[1].replace(/\s/gu, '')
+    if (fields.punct && body.endsWith(fields.punct)) {
+        body = body.slice(0, -fields.punct.length)
+    }
+
+    const elements: string[] = []
+    const characters = [...body]
+    for (let i = 0; i < characters.length; i++) {
+        if (!/[A-Za-z]/.test(characters[i])) {
+            elements.push(characters[i])
+            continue
+        }
+        const tag = characters[i] + (characters[i + 1] ?? '')
+        if (!STRUCTURE_TAGS.includes(tag)) {
+            fail(`未知的词性标记 ${tag}`)
+        }
+        elements.push(tag)
+        i++
+    }
+
+    // 未注明标点时，句尾的标点即为句型的标点
+    let punctuation = fields.punct
+    if (punctuation === undefined) {
+        let end = elements.length
+        while (end > 0 && /^\p{P}$/u.test(elements[end - 1])) {
+            end--
+        }
+        punctuation = elements.splice(end).join('')
+    }
+    if (elements.length === 0) {
+        fail('句型中没有任何元素')
+    }
+
+    const limitedRhyme = fields.rhyme ?? ''
+    if (limitedRhyme !== '' && !/^(E|[a-z]+)$/.test(limitedRhyme)) {
+        fail(`限制韵脚无效: ${limitedRhyme}`)
+    }
+    const internalNeed = fields.need === undefined ? DEFAULT_INTERNAL_NEED : Number(fields.need)
+    if (![0, 1, 2].includes(internalNeed)) {
+        fail(`内部需求必须是 0、1 或 2: ${fields.need}`)
+    }
+    const compoundStructureCount =
+        fields.cs === undefined ? getDefaultCompoundStructureCount(elements, limitedRhyme) : Number(fields.cs)
+    if (!Number.isInteger(compoundStructureCount) || compoundStructureCount < 0) {
+        fail(`复合结构数必须是非负整数: ${fields.cs}`)
+    }
+    if (compoundStructureCount > elements.length) {
+        fail(`复合结构数 ${compoundStructureCount} 超出了元素个数 ${elements.length}`)
+    }
+
+    return { internalNeed, limitedRhyme, compoundStructureCount, punctuation, elements }
+}
+
+/**
+ * 把句型写成模板，只注明与默认值不同的字段
+ * @param structure 句型结构（元素可以用空字符串补位）
+ * @returns 句型模板
+ */
+export function stringifyStructureTemplate(structure: SentenceStructure): string {
+    const emptyIndex = structure.elements.indexOf('')
+    const elements = emptyIndex === -1 ? structure.elements : structure.elements.slice(0, emptyIndex)
+
+    const fields: string[] = []
+    if (structure.limitedRhyme !== '') {
+        fields.push(`rhyme:${structure.limitedRhyme}`)
+    }
+    if (structure.internalNeed !== DEFAULT_INTERNAL_NEED) {
+        fields.push(`need:${structure.internalNeed}`)
+    }
+    if (structure.compoundStructureCount !== getDefaultCompoundStructureCount(elements, structure.limitedRhyme)) {
+        fields.push(`cs:${structure.compoundStructureCount}`)
+    }
+    // 句尾的元素是标点时，须注明标点才能与元素区分
+    if (elements.length > 0 && /^\p{P}$/u.test(elements[elements.length - 1])) {
+        fields.push(`punct:${structure.punctuation}`)
+    }
+
+    const text = elements.join('') + structure.punctuation
+    return fields.length > 0 ? `${text}{${fields.join(',')}}` : text
+}
+
+/** 解析花括号中的字段，如 rhyme:E,need:2,punct:，（punct 的值取到末尾，可以含逗号） */
+function parseFields(text: string, fail: (message: string) => never): Record<string, string> {
+    const fields: Record<string, string> = {}
+    let rest = text
+    const punct = text.match(/(?:^|[,，])\s*punct\s*[:：]/)
+    if (punct?.index !== undefined) {
+        fields.punct = text.slice(punct.index + punct[0].length)
+        rest = text.slice(0, punct.index)
+    }
+    for (const field of rest.split(/[,，]/)) {
+        if (field.trim() === '') {
+            continue
+        }
+        const separator = field.search(/[:：]/)
+        const key = separator === -1 ? field.trim() : field.slice(0, separator).trim()
+        if (separator === -1 || !['rhyme', 'need', 'cs'].includes(key)) {
+            fail(`未知的字段 ${field.trim()}（可用字段：rhyme、need、cs、punct）`)
+        }
+        fields[key] = field.slice(separator + 1).trim()
+    }
+    return fields
+}
+
+/** 复合结构数的默认值：最后一个词性标记的位置，限制韵脚为固定韵母或 not 时为 0 */
+function getDefaultCompoundStructureCount(elements: string[], limitedRhyme: string): number {
+    if (limitedRhyme !== '' && limitedRhyme !== 'E') {
+        return 0
+    }
+    let position = 0
+    elements.forEach((element, index) => {
+        if (STRUCTURE_TAGS.includes(element)) {
+            position = index + 1
+        }
+    })
+    return position
+}
@@ -0,0 +1,95 @@
+import type { GeneratedPoem, RandomSource, WordRecord } from '@/types'
+import type { DataService } from './data-service'
+import { SeededRandom } from './random-source'
+
+/** 诗中没有名词时的标题 */
+const UNTITLED = '无题'
+
+/** 各类名词的标题模板，X 为标题中的名词 */
+const TITLE_TEMPLATES: Record<'time' | 'place' | 'person' | 'thing', string[]> = {
+    time: ['X', 'X即景', 'X之歌', 'X随想'],
+    place: ['在X', 'X记', 'X之夜', '忆X'],
+    person: ['致X', '赠X', 'X'],
+    thing: ['X', '咏X', 'X之夜', 'X颂'],
+}
+
+/** 名词属性对应的模板类别 */
+const PROPERTY_CATEGORIES: Record<string, keyof typeof TITLE_TEMPLATES> = {
+    时间: 'time',
+    地点: 'place',
+    地名: 'place',
+    人物: 'person',
+    人名: 'person',
+}
+
+/**
+ * 标题生成器 - 根据诗中的名词拟一个简短的标题
+ * 以诗中出现次数最多（相同时取较少见）的名词为题眼，按其属性套用标题模板；
+ * 诗中另有时间名词时，也可拟作「时间的题眼」
+ */
+export class TitleGenerator {
+    private dataService: DataService
+    private random: RandomSource
+
+    constructor(dataService: DataService, random: RandomSource = new SeededRandom()) {
+        this.dataService = dataService
+        this.random = random
+    }
+
+    /**
+     * 为诗歌拟题
+     * @param poem 生成的诗歌
+     * @returns 标题，诗中没有名词时为「无题」
+     */
+    public generateTitle(poem: GeneratedPoem): string {
+        const nouns = this.getPoemNouns(poem)
+        const salient = this.pickSalientNoun(nouns)
+        if (!salient) {
+            return UNTITLED
+        }
+
+        const category = PROPERTY_CATEGORIES[salient.property] ?? 'thing'
+        const titles = TITLE_TEMPLATES[category].map((template) => template.replace('X', salient.word))
+
+        const timeNoun = nouns.find(({ record }) => record.property === '时间' && record.word !== salient.word)
+        if (timeNoun && category !== 'time') {
+            titles.push(`${timeNoun.record.word}的${salient.word}`)
+        }
+
+        return titles[Math.floor(this.random.next() * titles.length)]
+    }
+
+    /** 按出现顺序获取诗中的名词及其出现次数 */
+    private getPoemNouns(poem: GeneratedPoem): { record: WordRecord; count: number }[] {
+        const nounRecords = new Map(this.dataService.getNouns().map((record) => [record.word, record]))
+        const nouns = new Map<string, { record: WordRecord; count: number }>()
+
+        for (const word of poem.words ?? []) {
+            const record = nounRecords.get(word)
+            if (record) {
+                const noun = nouns.get(word) ?? { record, count: 0 }
+                noun.count++
+                nouns.set(word, noun)
+            }
+        }
+
+        return [...nouns.values()]
+    }
+
+    /** 选出题眼：出现次数最多的名词，次数相同时取词频较低（较少见）的，再相同时取先出现的 */
+    private pickSalientNoun(nouns: { record: WordRecord; count: number }[]): WordRecord | undefined {
+        let salient: { record: WordRecord; count: number } | undefined
+
+        for (const noun of nouns) {
+            if (
+                !salient ||
+                noun.count > salient.count ||
+                (noun.count === salient.count && (noun.record.frequency ?? 0) < (salient.record.frequency ?? 0))
+            ) {
+                salient = noun
+            }
+        }
+
+        return salient?.record
+    }
+}
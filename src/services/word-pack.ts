@@ -0,0 +1,202 @@
+import { readFileSync, statSync } from 'node:fs'
+import { basename, extname, resolve } from 'node:path'
+import type { DataSource, LexiconName, SpecialWord, WordPack, WordPackEntry, WordRecord } from '@/types'
+import { FileDataSource } from './data-source'
+
+/** 各词库的数据文件名，词汇包目录中的文件名与之相同 */
+export const LEXICON_FILES: Record<LexiconName, string> = {
+    nouns: 'nouns.json',
+    adjectives: 'adjectives.json',
+    intransitiveVerbs: 'intransitive-verbs.json',
+    transitiveVerbs: 'transitive-verbs.json',
+    interjections: 'interjections.json',
+    specialWords: 'special-words.json',
+}
+
+/** 词库记录中的文字字段 */
+const TEXT_FIELDS = ['vowel', 'class', 'property', 'liberty']
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/** 词条的键：特殊词为内容，其余为词 */
+export function getEntryKey(entry: WordRecord | SpecialWord): string {
+    return 'content' in entry ? entry.content : entry.word
+}
+
+/**
+ * 载入词汇包
+ * 目录中按词库的数据文件名（nouns.json 等）存放各词库的词条，名称为目录名；
+ * 单个 JSON 文件以词库名（nouns、specialWords 等）为键，名称取 name 字段，默认为文件名
+ * @param path 目录或文件的路径（相对路径按当前工作目录解析）
+ * @returns 词汇包
+ */
+export function loadWordPack(path: string): WordPack {
+    let isDirectory: boolean
+    try {
+        isDirectory = statSync(path).isDirectory()
+    } catch (error) {
+        throw new Error(`无法加载词汇包 ${path}: ${error}`)
+    }
+    if (isDirectory) {
+        return readWordPack(new FileDataSource(path), basename(resolve(path)))
+    }
+
+    let data: unknown
+    try {
+        data = JSON.parse(readFileSync(path, 'utf-8'))
+    } catch (error) {
+        throw new Error(`无法加载词汇包 ${path}: ${error}`)
+    }
+    return parseWordPack(data, basename(path, extname(path)), path)
+}
+
+/**
+ * 从数据源读取词汇包，各词库的词条存放在与数据文件同名的文件中，缺少的文件视为没有词条
+ * @param source 数据源
+ * @param name 词汇包的名称
+ * @returns 词汇包
+ */
+export function readWordPack(source: DataSource, name: string): WordPack {
+    const data: Record<string, unknown> = { name }
+    for (const [lexicon, filename] of Object.entries(LEXICON_FILES)) {
+        const content = source.read(filename)
+        if (content === null) {
+            continue
+        }
+        try {
+            data[lexicon] = JSON.parse(content)
+        } catch (error) {
+            throw new Error(`词汇包无效（${name}）：无法解析 ${filename}: ${error}`)
+        }
+    }
+    return parseWordPack(data, name, name)
+}
+
+/**
+ * 校验词汇包，补全词条中省略的字段（文字字段为空，频率为 null，特殊词类型为 0）
+ * @param data 以词库名为键、词条数组为值的对象，可用 name 指定名称
+ * @param defaultName 未指定名称时使用的名称
+ * @param source 出错时说明的来源
+ * @returns 词汇包
+ */
+export function parseWordPack(data: unknown, defaultName: string, source: string): WordPack {
+    const fail = (message: string): never => {
+        throw new Error(`词汇包无效（${source}）：${message}`)
+    }
+
+    if (!isRecord(data)) {
+        return fail('应为 JSON 对象')
+    }
+    const name = data.name ?? defaultName
+    if (typeof name !== 'string' || name === '') {
+        return fail('名称 name 应为非空的文字')
+    }
+    const unknownKey = Object.keys(data).find((key) => key !== 'name' && !(key in LEXICON_FILES))
+    if (unknownKey) {
+        fail(`未知的词库 ${unknownKey}（可用：${Object.keys(LEXICON_FILES).join('、')}）`)
+    }
+
+    const lexicons: WordPack['lexicons'] = {}
+    for (const lexicon of Object.keys(LEXICON_FILES) as LexiconName[]) {
+        const entries = data[lexicon]
+        if (entries === undefined) {
+            continue
+        }
+        if (!Array.isArray(entries)) {
+            return fail(`${lexicon} 应为词条数组`)
+        }
+        lexicons[lexicon] = entries.map((entry, index) =>
+            parseEntry(entry, lexicon, (message) => fail(`${lexicon}[${index}] ${message}`))
+        )
+    }
+    return { name, lexicons }
+}
+
+/** 校验单个词条并补全省略的字段 */
+function parseEntry(entry: unknown, lexicon: LexiconName, fail: (message: string) => never): WordPackEntry {
+    if (!isRecord(entry)) {
+        return fail('应为对象')
+    }
+    if (entry.remove !== undefined && typeof entry.remove !== 'boolean') {
+        fail('remove 应为 true 或 false')
+    }
+
+    if (lexicon === 'specialWords') {
+        if (typeof entry.content !== 'string' || entry.content === '') {
+            fail('缺少特殊词内容 content')
+        }
+        if (entry.type !== undefined && !Number.isInteger(entry.type)) {
+            fail('type 应为整数')
+        }
+        return { type: 0, ...entry } as WordPackEntry
+    }
+
+    if (typeof entry.word !== 'string' || entry.word === '') {
+        fail('缺少词语 word')
+    }
+    for (const field of TEXT_FIELDS) {
+        if (entry[field] !== undefined && typeof entry[field] !== 'string') {
+            fail(`${field} 应为文字`)
+        }
+    }
+    if (entry.frequency !== undefined && entry.frequency !== null && typeof entry.frequency !== 'number') {
+        fail('frequency 应为数字或 null')
+    }
+    return { vowel: '', class: '', property: '', liberty: '', frequency: null, ...entry } as WordPackEntry
+}
+
+/**
+ * 把词汇包按顺序叠加在词库之上，后面的包优先
+ * 包中的词替换词库中同一个词的全部词条（位置不变），新词追加在末尾，remove 为 true 的词被去掉；
+ * 来自词汇包的词条记录包的名称
+ * @param records 基础词库的词条
+ * @param packs 词汇包
+ * @param lexicon 词库
+ * @returns 叠加后的词条
+ */
+export function mergeWordPacks<T extends WordRecord | SpecialWord>(
+    records: T[],
+    packs: WordPack[],
+    lexicon: LexiconName
+): T[] {
+    return packs.reduce((merged, pack) => {
+        const entries = pack.lexicons[lexicon]
+        if (!entries?.length) {
+            return merged
+        }
+
+        // 同一个包中先后出现的同一个词，以后出现的为准
+        const removed = new Set<string>()
+        const replacements = new Map<string, T[]>()
+        for (const { remove, ...entry } of entries) {
+            const key = getEntryKey(entry)
+            if (remove) {
+                removed.add(key)
+                replacements.delete(key)
+            } else {
+                removed.delete(key)
+                replacements.set(key, [...(replacements.get(key) ?? []), { ...entry, pack: pack.name } as T])
+            }
+        }
+
+        const result: T[] = []
+        const placed = new Set<string>()
+        for (const record of merged) {
+            const key = getEntryKey(record)
+            const replacement = replacements.get(key)
+            if (replacement && !placed.has(key)) {
+                result.push(...replacement)
+                placed.add(key)
+            } else if (!replacement && !removed.has(key)) {
+                result.push(record)
+            }
+        }
+        for (const [key, replacement] of replacements) {
+            if (!placed.has(key)) {
+                result.push(...replacement)
+            }
+        }
+        return result
+    }, records)
+}
@@ -1,14 +1,51 @@
-import type { RhymeScheme, WordRecord, WordSelectionContext } from '../types/index'
+import type {
+    ParallelStatus,
+    PartOfSpeech,
+    RandomSource,
+    RequiredWord,
+    ResolvedRequiredWord,
+    RhymeScheme,
+    RhymeStatus,
+    VocabularyLevel,
+    WordRecord,
+    WordSelection,
+    WordSelectionContext,
+} from '../types/index'
 import type { DataService } from './data-service'
+import { FormPlanner } from './form-planner'
+import { SeededRandom } from './random-source'
+
+/** 用词倾向对应的词汇自由度 */
+const VOCABULARY_LIBERTY: Record<VocabularyLevel, string> = {
+    basic: '基本',
+    literary: '文学',
+}
+
+/** 符合用词倾向的词汇的权重倍数 */
+const VOCABULARY_BIAS = 4
+
+/** 主题名词的权重倍数 */
+const TOPIC_BIAS = 8
+
+/** 严格主题约束下候选词汇的最少数量，不足时回退到整个词库 */
+const MIN_TOPIC_POOL_SIZE = 3
+
+/** 受主题约束的名词词性 */
+const NOUN_TAGS: PartOfSpeech[] = ['MM', 'MC', 'MR']
+
+/** 查找必用词时依次检查的词性（特殊词不参与） */
+export const REQUIRED_WORD_TAGS: PartOfSpeech[] = ['MM', 'MC', 'MR', 'XA', 'DD', 'DI', 'DV', 'DO', 'DJ', 'TT']
 
 /**
  * 词汇选择服务 - 负责根据规则选择合适的词汇
  */
 export class WordSelector {
     private dataService: DataService
+    private random: RandomSource
 
-    constructor(dataService: DataService) {
+    constructor(dataService: DataService, random: RandomSource = new SeededRandom()) {
         this.dataService = dataService
+        this.random = random
     }
 
     /**
@@ -16,176 +53,418 @@ export class WordSelector {
      * 还原自原始 Visual FoxPro 的 select_word 过程
      */
     public selectWord(context: WordSelectionContext): string {
-        const { partOfSpeech, needsRhyme, rhymeScheme } = context
+        return this.selectWordWithDetail(context).text
+    }
+
+    /**
+     * 根据上下文选择词汇，并返回来源词库、词汇记录和韵脚约束状态
+     */
+    public selectWordWithDetail(context: WordSelectionContext): WordSelection {
+        const { partOfSpeech, required } = context
         const words = this.dataService.getWordsByPartOfSpeech(partOfSpeech)
+        const lexicon = this.dataService.getLexiconName(partOfSpeech)
+
+        if (required) {
+            return {
+                text: this.formatWord(partOfSpeech, required),
+                lexicon,
+                record: required,
+                rhymeStatus: this.getRequiredRhymeStatus(required, context),
+            }
+        }
+        const candidates = this.filterByClassWeights(this.filterByPartOfSpeech(partOfSpeech, words), context)
+
+        if (candidates.length === 0) {
+            // 如果没有特殊词（或风格排除了全部候选词汇），返回空字符串
+            return { text: '', lexicon, rhymeStatus: 'none' }
+        }
+
+        const { record, rhymeStatus, repeated, parallelStatus } = this.pickWord(candidates, context)
 
+        return {
+            text: this.formatWord(partOfSpeech, record),
+            lexicon,
+            record,
+            rhymeStatus,
+            repeated,
+            parallelStatus,
+        }
+    }
+
+    /**
+     * 获取当前上下文下可选词汇的字数（按填入诗句的文本计算，不含标点）
+     * 与选词时一致，需要押韵时只统计押韵的词汇，要求首字时只统计以该字开头的词汇；没有候选词汇时为 0
+     * 指定必用词时只统计该词，不押韵或不以要求的首字开头时没有可选字数
+     */
+    public getAvailableLengths(context: WordSelectionContext): number[] {
+        const { partOfSpeech, initial, required } = context
+        if (required) {
+            const text = this.formatWord(partOfSpeech, required)
+            const fits =
+                this.getRequiredRhymeStatus(required, context) !== 'fallback' && (!initial || text.startsWith(initial))
+            return fits ? [FormPlanner.countCharacters(text)] : []
+        }
+
+        const candidates = this.filterByClassWeights(
+            this.filterByPartOfSpeech(partOfSpeech, this.dataService.getWordsByPartOfSpeech(partOfSpeech)),
+            context
+        )
+        if (candidates.length === 0) {
+            return initial ? [] : [0]
+        }
+
+        const { words } = this.filterByRhyme(candidates, context)
+        const lengths = new Set(
+            words
+                .map((word) => this.formatWord(partOfSpeech, word))
+                .filter((text) => !initial || text.startsWith(initial))
+                .map((text) => FormPlanner.countCharacters(text))
+        )
+        return [...lengths].sort((a, b) => a - b)
+    }
+
+    /**
+     * 在词库中查找必用词可以填入的词性
+     * 动词可按填入诗句的写法查找（如「骑马」对应「骑/马」）；
+     * 指定了词性而词库中没有该词时，按该词性临时构造词汇记录
+     * @param requiredWord 必用词
+     * @returns 词汇记录与可以填入的词性，词库中没有且未指定词性时返回 null
+     */
+    public resolveRequiredWord(requiredWord: RequiredWord): ResolvedRequiredWord | null {
+        const { word, partOfSpeech } = requiredWord
+        let record: WordRecord | undefined
+        const partsOfSpeech: PartOfSpeech[] = []
+
+        for (const tag of partOfSpeech ? [partOfSpeech] : REQUIRED_WORD_TAGS) {
+            const found = this.filterByPartOfSpeech(tag, this.dataService.getWordsByPartOfSpeech(tag)).find(
+                (item) => item.word === word || item.word.replace('/', '') === word
+            )
+            if (found && (!record || found.word === record.word)) {
+                record = record ?? found
+                partsOfSpeech.push(tag)
+            }
+        }
+
+        if (record) {
+            return { record, partsOfSpeech }
+        }
+        if (partOfSpeech) {
+            return {
+                record: { word, vowel: '', class: '', property: '', liberty: '', frequency: null },
+                partsOfSpeech: [partOfSpeech],
+            }
+        }
+        return null
+    }
+
+    /** 必用词的韵脚约束状态：需要押韵而必用词不押韵时为回退 */
+    private getRequiredRhymeStatus(required: WordRecord, context: WordSelectionContext): RhymeStatus {
+        const { needsRhyme, rhymeScheme } = context
+        if (!needsRhyme || !rhymeScheme) {
+            return 'none'
+        }
+        return required.vowel === rhymeScheme ? 'applied' : 'fallback'
+    }
+
+    /** 按词性筛选候选词汇 */
+    private filterByPartOfSpeech(partOfSpeech: PartOfSpeech, words: WordRecord[]): WordRecord[] {
         switch (partOfSpeech) {
             case 'MM':
             case 'TT':
             case 'DJ':
             case 'XA':
-                return this.selectBasicWord(words, needsRhyme, rhymeScheme)
-
             case 'DD':
-                return this.selectIntransitiveVerb(words, needsRhyme, rhymeScheme)
+            case 'SS':
+                return words
 
             case 'MC':
-                return this.selectLocationNoun(words, needsRhyme, rhymeScheme)
+                return this.filterLocationNouns(words)
 
             case 'MR':
-                return this.selectPersonNoun(words, needsRhyme, rhymeScheme)
+                return this.filterPersonNouns(words)
 
             case 'DI':
-                return this.selectSimpleVerb(words)
+                return this.filterSimpleVerbs(words)
 
             case 'DV':
-                return this.selectProgressiveVerb(words, needsRhyme, rhymeScheme)
+                return this.filterCompoundVerbs(words, '没有找到合适的进行时动词')
 
             case 'DO':
-                return this.selectResultativeVerb(words)
-
-            case 'SS':
-                return this.selectSpecialWord()
+                return this.filterCompoundVerbs(words, '没有找到合适的结果补语动词')
 
             default:
                 throw new Error(`未支持的词性: ${partOfSpeech}`)
         }
     }
 
-    /** 选择基本词汇（名词、叹词、及物动词、形容词） */
-    private selectBasicWord(words: WordRecord[], needsRhyme: boolean, rhymeScheme?: RhymeScheme): string {
-        if (needsRhyme && rhymeScheme) {
-            const rhymingWords = words.filter((word) => word.vowel === rhymeScheme)
-            if (rhymingWords.length > 0) {
-                return this.getRandomWord(rhymingWords).word
-            }
-        }
-        return this.getRandomWord(words).word
-    }
-
-    /** 选择不及物动词（DD） */
-    private selectIntransitiveVerb(words: WordRecord[], needsRhyme: boolean, rhymeScheme?: RhymeScheme): string {
-        const selectedWord =
-            needsRhyme && rhymeScheme ? this.getRandomRhymingWord(words, rhymeScheme) : this.getRandomWord(words)
-
-        // 处理动词的分隔符格式（如：骑/马）
-        const wordText = selectedWord.word
-        const slashIndex = wordText.indexOf('/')
-        if (slashIndex !== -1) {
-            return wordText.substring(0, slashIndex) + wordText.substring(slashIndex + 1)
-        }
-        return wordText
-    }
-
-    /** 选择地点名词（MC） */
-    private selectLocationNoun(words: WordRecord[], needsRhyme: boolean, rhymeScheme?: RhymeScheme): string {
+    /** 筛选地点名词（MC） */
+    private filterLocationNouns(words: WordRecord[]): WordRecord[] {
         const locationWords = words.filter(
             (word) => word.property === '时间' || word.property === '地点' || word.property === '地名'
         )
-
-        if (needsRhyme && rhymeScheme) {
-            const rhymingLocationWords = locationWords.filter((word) => word.vowel === rhymeScheme)
-            if (rhymingLocationWords.length > 0) {
-                return this.getRandomWord(rhymingLocationWords).word
-            }
-        }
-
         if (locationWords.length === 0) {
             throw new Error('没有找到合适的地点名词')
         }
-        return this.getRandomWord(locationWords).word
+        return locationWords
     }
 
-    /** 选择人物名词（MR） */
-    private selectPersonNoun(words: WordRecord[], needsRhyme: boolean, rhymeScheme?: RhymeScheme): string {
+    /** 筛选人物名词（MR） */
+    private filterPersonNouns(words: WordRecord[]): WordRecord[] {
         const personWords = words.filter((word) => word.property === '人物' || word.property === '人名')
-
-        if (needsRhyme && rhymeScheme) {
-            const rhymingPersonWords = personWords.filter((word) => word.vowel === rhymeScheme)
-            if (rhymingPersonWords.length > 0) {
-                return this.getRandomWord(rhymingPersonWords).word
-            }
-        }
-
         if (personWords.length === 0) {
             throw new Error('没有找到合适的人物名词')
         }
-        return this.getRandomWord(personWords).word
+        return personWords
     }
 
-    /** 选择简单动词（DI） - 不包含分隔符的动词 */
-    private selectSimpleVerb(words: WordRecord[]): string {
+    /** 筛选简单动词（DI） - 不包含分隔符的动词 */
+    private filterSimpleVerbs(words: WordRecord[]): WordRecord[] {
         const simpleVerbs = words.filter((word) => !word.word.includes('/'))
         if (simpleVerbs.length === 0) {
             throw new Error('没有找到合适的简单动词')
         }
-        return this.getRandomWord(simpleVerbs).word
+        return simpleVerbs
     }
 
-    /** 选择进行时动词（DV） - 添加"着"后缀 */
-    private selectProgressiveVerb(words: WordRecord[], needsRhyme: boolean, rhymeScheme?: RhymeScheme): string {
-        let candidateWords = words.filter((word) => word.word.includes('/'))
+    /** 筛选带分隔符的复合动词（DV、DO） */
+    private filterCompoundVerbs(words: WordRecord[], errorMessage: string): WordRecord[] {
+        const compoundVerbs = words.filter((word) => word.word.includes('/'))
+        if (compoundVerbs.length === 0) {
+            throw new Error(errorMessage)
+        }
+        return compoundVerbs
+    }
 
-        if (needsRhyme && rhymeScheme) {
-            const rhymingWords = candidateWords.filter((word) => word.vowel === rhymeScheme)
+    /**
+     * 在候选词汇中随机选择，需要押韵时优先选择押韵的词汇，并尽量不重复已用过的词汇
+     * 原程序中 DI、DO、SS 不参与押韵
+     */
+    private pickWord(
+        candidates: WordRecord[],
+        context: WordSelectionContext
+    ): { record: WordRecord; rhymeStatus: RhymeStatus; repeated: boolean; parallelStatus?: ParallelStatus } {
+        const { words: rhymingWords, rhymeStatus } = this.filterByRhyme(candidates, context)
+        const { words: parallelWords, parallelStatus } = this.filterByCounterpart(
+            this.filterByLength(this.filterByInitial(rhymingWords, context), context),
+            context
+        )
+        const { words: freshWords, repeated } = this.filterByHistory(parallelWords, context)
+        const record = this.getRandomWord(this.filterByTopics(freshWords, context), context)
+
+        return { record, rhymeStatus, repeated, parallelStatus }
+    }
+
+    /** 需要押韵时筛选押韵的词汇，没有押韵的词汇时回退到全部候选词汇 */
+    private filterByRhyme(
+        candidates: WordRecord[],
+        context: WordSelectionContext
+    ): { words: WordRecord[]; rhymeStatus: RhymeStatus } {
+        const { partOfSpeech, needsRhyme, rhymeScheme } = context
+
+        if (!needsRhyme || !rhymeScheme) {
+            return { words: candidates, rhymeStatus: 'none' }
+        }
+
+        if (partOfSpeech !== 'DI' && partOfSpeech !== 'DO' && partOfSpeech !== 'SS') {
+            const rhymingWords = candidates.filter((word) => word.vowel === rhymeScheme)
             if (rhymingWords.length > 0) {
-                candidateWords = rhymingWords
+                return { words: rhymingWords, rhymeStatus: 'applied' }
             }
         }
 
-        if (candidateWords.length === 0) {
-            throw new Error('没有找到合适的进行时动词')
+        // 没有押韵的词汇时回退到普通选择
+        return { words: candidates, rhymeStatus: 'fallback' }
+    }
+
+    /** 要求首字时只保留以该字开头的词汇 */
+    private filterByInitial(words: WordRecord[], context: WordSelectionContext): WordRecord[] {
+        const { partOfSpeech, initial } = context
+        if (!initial) {
+            return words
         }
 
-        const selectedWord = this.getRandomWord(candidateWords)
-        const wordText = selectedWord.word
-        const slashIndex = wordText.indexOf('/')
-        if (slashIndex !== -1) {
-            return wordText.substring(0, slashIndex) + '着' + wordText.substring(slashIndex + 1)
+        const matchingWords = words.filter((word) => this.formatWord(partOfSpeech, word).startsWith(initial))
+        if (matchingWords.length === 0) {
+            throw new Error(`没有找到以「${initial}」开头的${partOfSpeech}词汇`)
         }
-        return wordText + '着'
+        return matchingWords
     }
 
-    /** 选择结果补语动词（DO） - 添加"得"后缀 */
-    private selectResultativeVerb(words: WordRecord[]): string {
-        const candidateWords = words.filter((word) => word.word.includes('/'))
+    /** 要求字数时只保留字数相符的词汇 */
+    private filterByLength(words: WordRecord[], context: WordSelectionContext): WordRecord[] {
+        const { partOfSpeech, length } = context
+        if (length === undefined) {
+            return words
+        }
 
-        if (candidateWords.length === 0) {
-            throw new Error('没有找到合适的结果补语动词')
+        const matchingWords = words.filter(
+            (word) => FormPlanner.countCharacters(this.formatWord(partOfSpeech, word)) === length
+        )
+        if (matchingWords.length === 0) {
+            throw new Error(`没有找到${length}个字的${partOfSpeech}词汇`)
         }
+        return matchingWords
+    }
 
-        const selectedWord = this.getRandomWord(candidateWords)
-        const wordText = selectedWord.word
-        const slashIndex = wordText.indexOf('/')
-        if (slashIndex !== -1) {
-            return wordText.substring(slashIndex + 1).trim() + wordText.substring(0, slashIndex) + '得'
+    /**
+     * 对仗时选择与另一行同一词槽字数相同的词汇，名词还要求属性相同（人物对人物、地点对地点）
+     * 找不到时先放宽属性，再放宽字数
+     */
+    private filterByCounterpart(
+        words: WordRecord[],
+        context: WordSelectionContext
+    ): { words: WordRecord[]; parallelStatus?: ParallelStatus } {
+        const { partOfSpeech, counterpart } = context
+        if (!counterpart) {
+            return { words }
+        }
+
+        const length = FormPlanner.countCharacters(counterpart.text)
+        const sameLengthWords = words.filter(
+            (word) => FormPlanner.countCharacters(this.formatWord(partOfSpeech, word)) === length
+        )
+        if (sameLengthWords.length === 0) {
+            return { words, parallelStatus: 'unmatched' }
+        }
+
+        if (!NOUN_TAGS.includes(partOfSpeech) || !counterpart.record) {
+            return { words: sameLengthWords, parallelStatus: 'matched' }
         }
-        return wordText + '得'
+
+        const { property } = counterpart.record
+        const samePropertyWords = sameLengthWords.filter((word) => word.property === property)
+        return samePropertyWords.length > 0
+            ? { words: samePropertyWords, parallelStatus: 'matched' }
+            : { words: sameLengthWords, parallelStatus: 'lengthOnly' }
     }
 
-    /** 选择特殊词汇（SS） */
-    private selectSpecialWord(): string {
-        const specialWords = this.dataService.getSpecialWords()
-        if (specialWords.length === 0) {
-            return '' // 如果没有特殊词，返回空字符串
+    /**
+     * 排除已用过的词汇
+     * 优先回避本诗和最近存档的诗中用过的词，不够时只回避本诗中的词，候选词汇全部用过时才允许重复
+     */
+    private filterByHistory(
+        words: WordRecord[],
+        context: WordSelectionContext
+    ): { words: WordRecord[]; repeated: boolean } {
+        const { usedWords, archivedWords } = context
+
+        const unusedWords = usedWords ? words.filter((word) => !usedWords.has(word.word)) : words
+        if (unusedWords.length === 0) {
+            return { words, repeated: true }
         }
-        const randomIndex = Math.floor(Math.random() * specialWords.length)
-        return specialWords[randomIndex].content
+
+        const freshWords = archivedWords ? unusedWords.filter((word) => !archivedWords.has(word.word)) : unusedWords
+        return { words: freshWords.length > 0 ? freshWords : unusedWords, repeated: false }
     }
 
-    /** 获取随机词汇 */
-    private getRandomWord(words: WordRecord[]): WordRecord {
+    /**
+     * 严格主题约束时只保留主题类别的名词
+     * 主题词汇不足 MIN_TOPIC_POOL_SIZE 个时回退到原候选词汇
+     */
+    private filterByTopics(words: WordRecord[], context: WordSelectionContext): WordRecord[] {
+        const { partOfSpeech, topics, topicStrictness } = context
+        if (topicStrictness !== 'strict' || !topics || topics.length === 0 || !NOUN_TAGS.includes(partOfSpeech)) {
+            return words
+        }
+
+        const topicWords = words.filter((word) => topics.includes(word.class))
+        return topicWords.length >= MIN_TOPIC_POOL_SIZE ? topicWords : words
+    }
+
+    /** 排除风格配置中权重为 0 的类别的名词 */
+    private filterByClassWeights(words: WordRecord[], context: WordSelectionContext): WordRecord[] {
+        const classWeights = this.getNounClassWeights(context)
+        return classWeights ? words.filter((word) => (classWeights[word.class] ?? 1) > 0) : words
+    }
+
+    /** 名词类别的权重只用于名词，其他词性的类别与名词类别无关 */
+    private getNounClassWeights(context: WordSelectionContext): Record<string, number> | undefined {
+        return NOUN_TAGS.includes(context.partOfSpeech) ? context.classWeights : undefined
+    }
+
+    /** 将词汇记录转换为诗句中的文本 */
+    private formatWord(partOfSpeech: PartOfSpeech, record: WordRecord): string {
+        const wordText = record.word
+        const slashIndex = wordText.indexOf('/')
+
+        switch (partOfSpeech) {
+            case 'DD':
+                // 处理动词的分隔符格式（如：骑/马）
+                if (slashIndex !== -1) {
+                    return wordText.substring(0, slashIndex) + wordText.substring(slashIndex + 1)
+                }
+                return wordText
+
+            case 'DV':
+                // 进行时动词 - 添加"着"后缀（如：骑着马）
+                if (slashIndex !== -1) {
+                    return wordText.substring(0, slashIndex) + '着' + wordText.substring(slashIndex + 1)
+                }
+                return wordText + '着'
+
+            case 'DO':
+                // 结果补语动词 - 添加"得"后缀（如：马骑得）
+                if (slashIndex !== -1) {
+                    return wordText.substring(slashIndex + 1).trim() + wordText.substring(0, slashIndex) + '得'
+                }
+                return wordText + '得'
+
+            default:
+                return wordText
+        }
+    }
+
+    /**
+     * 按权重获取随机词汇
+     * 频率越高的词越容易被选中，指定用词倾向或主题时对应词汇权重加倍，风格配置另可调整各名词类别的权重
+     */
+    private getRandomWord(words: WordRecord[], context: WordSelectionContext): WordRecord {
         if (words.length === 0) {
             throw new Error('词汇列表为空')
         }
-        const randomIndex = Math.floor(Math.random() * words.length)
-        return words[randomIndex]
+
+        const { vocabulary, topics } = context
+        const classWeights = this.getNounClassWeights(context)
+        const weights = words.map((word) => WordSelector.getWordWeight(word, vocabulary, topics, classWeights))
+        const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+        if (totalWeight <= 0) {
+            throw new Error('候选词汇的权重都为 0')
+        }
+        let threshold = this.random.next() * totalWeight
+
+        // 浮点误差使阈值没有减到 0 以下时，取最后一个权重大于 0 的词，不会选中权重为 0 的词
+        let chosen = words[0]
+        for (let i = 0; i < words.length; i++) {
+            if (weights[i] <= 0) {
+                continue
+            }
+            chosen = words[i]
+            threshold -= weights[i]
+            if (threshold < 0) {
+                break
+            }
+        }
+        return chosen
     }
 
-    /** 获取随机押韵词汇 */
-    private getRandomRhymingWord(words: WordRecord[], rhymeScheme: RhymeScheme): WordRecord {
-        const rhymingWords = words.filter((word) => word.vowel === rhymeScheme)
-        return this.getRandomWord(rhymingWords)
+    /**
+     * 计算词汇的抽样权重
+     * @param classWeights 名词类别的权重倍数（只应对名词指定）
+     */
+    public static getWordWeight(
+        word: WordRecord,
+        vocabulary?: VocabularyLevel,
+        topics?: string[],
+        classWeights?: Record<string, number>
+    ): number {
+        let weight = (1 + (word.frequency ?? 0)) * (classWeights?.[word.class] ?? 1)
+        if (vocabulary && word.liberty === VOCABULARY_LIBERTY[vocabulary]) {
+            weight *= VOCABULARY_BIAS
+        }
+        if (topics && word.class !== '' && topics.includes(word.class)) {
+            weight *= TOPIC_BIAS
+        }
+        return weight
     }
 
     /** 规范化韵脚 - 还原自原始代码的韵脚转换逻辑 */
@@ -2,8 +2,56 @@
  * 诗歌生成系统的类型定义
  */
 
-/** 诗歌风格类型 */
-export type PoeticStyle = 'quiet' | 'bold'
+/** 内置的诗歌风格：宁静、奔放 */
+export type BuiltInStyle = 'quiet' | 'bold'
+
+/** 诗歌风格：内置风格名或风格配置 */
+export type PoeticStyle = BuiltInStyle | StyleProfile
+
+/** 风格配置（可从 JSON 文件载入） */
+export interface StyleProfile {
+    /** 风格名称 */
+    name: string
+    /** 说明（可选） */
+    description?: string
+    /** 允许的句型长度（句型库中的元素个数，可选） */
+    structureLength?: { min?: number; max?: number }
+    /** 标点偏好：含有该标点的句型的权重倍数，如 { "！": 3, "，": 0.5 } */
+    punctuationWeights?: Record<string, number>
+    /** 叹词密度：含有叹词（TT）的句型的权重倍数，0 表示不用含叹词的句型 */
+    interjectionWeight?: number
+    /** 名词扩展为「形容词的名词」的概率（0-1，可选，默认 0.5） */
+    attributeProbability?: number
+    /** 可加叹词的句型（内部需求为1）在句首加叹词的概率（0-1，可选，默认 0.5） */
+    interjectionProbability?: number
+    /** 句型文法（可选）：指定时按文法生成句型，不再从句型库中选取 */
+    grammar?: StructureGrammar
+    /** 名词类别的权重倍数，如 { "天文": 4 }，0 表示不用该类别的词 */
+    nounClassWeights?: Record<string, number>
+    /** 押韵的默认设置（命令行未指定时使用） */
+    rhyme?: {
+        /** 是否押韵 */
+        enabled?: boolean
+        /** 韵脚 */
+        scheme?: RhymeScheme
+        /** 段内押韵格式 */
+        pattern?: string
+        /** 是否每段换韵 */
+        change?: boolean
+    }
+}
+
+/**
+ * 句型文法：以规则描述句型，展开起始规则得到一个句型模板
+ * 规则右侧为句型模板，可引用其他规则（包括由句型库自动转换的 LIBRARY），
+ * 用「|」分隔备选、「*权重」标注备选的权重、「[...]」标注可省略的部分，如 "XA的MM*2 | MR | [XA的]MC"
+ */
+export interface StructureGrammar {
+    /** 起始规则名 */
+    start: string
+    /** 规则名 → 规则右侧 */
+    rules: Record<string, string>
+}
 
 /** 韵脚类型 */
 export type RhymeScheme =
@@ -26,9 +74,40 @@ export type RhymeScheme =
     | 'v'
     | ''
 
+/** 用词倾向：偏向基本词汇或文学词汇 */
+export type VocabularyLevel = 'basic' | 'literary'
+
+/** 主题约束强度：prefer 仅提高主题名词的权重，strict 只选用主题名词 */
+export type TopicStrictness = 'prefer' | 'strict'
+
+/** 格律诗体：五言绝句、七言绝句、五言律诗、七言律诗 */
+export type PoemForm = 'wujue' | 'qijue' | 'wulv' | 'qilv'
+
+/** 诗体定义 */
+export interface PoemFormDefinition {
+    /** 诗体名称 */
+    name: string
+    /** 每行字数（不含标点） */
+    charactersPerLine: number
+    /** 行数 */
+    lineCount: number
+}
+
 /** 词性标记 */
 export type PartOfSpeech = 'MM' | 'MC' | 'MR' | 'DD' | 'DI' | 'DV' | 'DO' | 'DJ' | 'XA' | 'TT' | 'SS'
 
+/** 词库名称 */
+export type LexiconName =
+    | 'nouns'
+    | 'adjectives'
+    | 'intransitiveVerbs'
+    | 'transitiveVerbs'
+    | 'interjections'
+    | 'specialWords'
+
+/** 可编辑的词库（不含特殊词库） */
+export type EditableLexiconName = Exclude<LexiconName, 'specialWords'>
+
 /** 诗歌配置 */
 export interface PoetryConfig {
     /** 诗歌编号 */
@@ -39,27 +118,43 @@ export interface PoetryConfig {
     lastUpdated?: string
 }
 
+/** 存档诗歌的用词记录 */
+export interface ArchivedPoemWords {
+    /** 作品编号 */
+    poemNumber: number
+    /** 诗中使用的词汇 */
+    words: string[]
+}
+
 /** 词汇记录 */
 export interface WordRecord {
     /** 词语 */
     word: string
     /** 韵母 */
     vowel: string
+    /** 类别（主要用于名词的主题分类：天文、军事、音乐等） */
+    class: string
     /** 属性（主要用于名词分类：人物、地点、时间等） */
     property: string
+    /** 自由度（基本、文学） */
+    liberty: string
+    /** 频率（0-5，越大越常用，可能缺失） */
+    frequency: number | null
+    /** 来源词汇包的名称（来自基础词库时没有） */
+    pack?: string
 }
 
 /** 句型结构 */
 export interface SentenceStructure {
-    /** 内部需求 */
+    /** 内部需求：0 不加叹词，1 按风格的概率在句首加叹词，2 句首必加叹词 */
     internalNeed: number
     /** 限制韵脚 */
     limitedRhyme: string
-    /** 复合结构数 */
+    /** 复合结构数：押韵元素的位置（从1开始），0 表示句尾固定、韵脚由限制韵脚决定 */
     compoundStructureCount: number
     /** 标点符号 */
     punctuation: string
-    /** 结构元素数组 (J1-J27) */
+    /** 结构元素数组，个数不限，遇到空字符串即结束（句型库中沿用原程序的 J1-J27，以空字符串补位） */
     elements: string[]
 }
 
@@ -69,6 +164,52 @@ export interface SpecialWord {
     content: string
     /** 类型 */
     type: number
+    /** 来源词汇包的名称（来自基础词库时没有） */
+    pack?: string
+}
+
+/** 在词库中添加或修改词条时可指定的字段 */
+export type WordFields = Partial<Omit<WordRecord, 'pack'>>
+
+/** 在词库中查找词汇的条件 */
+export interface LexiconSearchOptions {
+    /** 查找的词库（默认为全部可编辑的词库） */
+    lexicons?: EditableLexiconName[]
+    /** 限定韵母 */
+    vowel?: string
+}
+
+/** 查找到的词汇 */
+export interface LexiconSearchResult {
+    /** 所在的词库 */
+    lexicon: EditableLexiconName
+    /** 词库中的记录 */
+    record: WordRecord
+}
+
+/** 词库统计 */
+export interface LexiconStats {
+    /** 词库 */
+    lexicon: EditableLexiconName
+    /** 词条数（含词汇包中的词条） */
+    total: number
+    /** 各韵母的词条数 */
+    vowels: Record<string, number>
+    /** 各属性的词条数（没有属性的不计） */
+    properties: Record<string, number>
+    /** 来自词汇包的词条数 */
+    packEntries: number
+}
+
+/** 词汇包中的词条：与词库中的记录相同，remove 为 true 时表示从词库中去掉该词 */
+export type WordPackEntry = (WordRecord | SpecialWord) & { remove?: boolean }
+
+/** 词汇包 - 叠加在基础词库之上的词汇，按词（特殊词按内容）添加、覆盖或去掉词库中的词条 */
+export interface WordPack {
+    /** 名称，记录在来自该包的词条上 */
+    name: string
+    /** 各词库的词条 */
+    lexicons: Partial<Record<LexiconName, WordPackEntry[]>>
 }
 
 /** 诗句 */
@@ -79,12 +220,100 @@ export interface PoemLine {
 
 /** 工作结构 */
 export interface WorkingStructure {
-    /** 复合结构数 */
+    /** 复合结构数：扩展后押韵元素的位置（从1开始），0 表示没有押韵词槽 */
     compoundStructureCount: number
     /** 标点符号 */
     punctuation: string
-    /** 结构元素数组 (J1-J30) */
+    /** 结构元素数组，个数不限，遇到空字符串即结束 */
     elements: string[]
+    /** 来源句型在句型库中的序号（从0开始，可选） */
+    sourceIndex?: number
+    /** 该行是否需要押韵（可选，由押韵规则逐行决定） */
+    needsRhyme?: boolean
+    /** 该行的韵脚（可选） */
+    rhymeScheme?: RhymeScheme
+    /** 加在句首的文字（可选，藏头诗找不到合适句型时使用） */
+    prefix?: string
+    /** 安排在各词槽的必用词（键为元素位置，可选） */
+    requiredWords?: Record<number, ResolvedRequiredWord>
+}
+
+/** 句型检查发现的问题类别 */
+export type StructureLintCode =
+    | 'empty'
+    | 'unknown-tag'
+    | 'legacy-tag'
+    | 'gap'
+    | 'too-long'
+    | 'invalid-punctuation'
+    | 'invalid-rhyme'
+    | 'invalid-compound-count'
+    | 'invalid-internal-need'
+
+/** 句型检查发现的问题 */
+export interface StructureLintIssue {
+    /** 数据文件名 */
+    file: string
+    /** 句型在文件中的序号（从0开始） */
+    index: number
+    /** 元素位置（从0开始，可选） */
+    elementIndex?: number
+    /** 严重程度：error 表示句型有误，warning 仅为提示 */
+    severity: 'error' | 'warning'
+    /** 问题类别 */
+    code: StructureLintCode
+    /** 说明 */
+    message: string
+}
+
+/** 例句分词得到的片段 */
+export interface InferredSegment {
+    /** 片段文字 */
+    text: string
+    /** 词性标记（不是词库中的词时省略，作为句型中的文字） */
+    partOfSpeech?: PartOfSpeech
+    /** 来源词库 */
+    lexicon?: LexiconName
+}
+
+/** 由例句推断的句型 */
+export interface StructureInference {
+    /** 例句 */
+    sentence: string
+    /** 分词结果 */
+    segments: InferredSegment[]
+    /** 推断的句型结构 */
+    structure: SentenceStructure
+    /** 句型模板 */
+    template: string
+}
+
+/** 必须出现在诗中的词 */
+export interface RequiredWord {
+    /** 词语 */
+    word: string
+    /** 词性（可选，未指定时按词库查找） */
+    partOfSpeech?: PartOfSpeech
+}
+
+/** 查明词性的必用词 */
+export interface ResolvedRequiredWord {
+    /** 词汇记录（词库中没有而指定了词性时为临时构造的记录） */
+    record: WordRecord
+    /** 可以填入的词性 */
+    partsOfSpeech: PartOfSpeech[]
+}
+
+/** 必用词的安排结果 */
+export interface RequiredWordPlacement {
+    /** 必用词 */
+    word: string
+    /** 所在行号（从0开始，未能安排时没有） */
+    lineIndex?: number
+    /** 填入的词性（未能安排时没有） */
+    partOfSpeech?: PartOfSpeech
+    /** 未能安排的原因 */
+    reason?: string
 }
 
 /** 诗歌生成选项 */
@@ -97,8 +326,38 @@ export interface PoetryGenerationOptions {
     linesPerParagraph: number
     /** 是否押韵 */
     useRhyme: boolean
-    /** 韵脚（当useRhyme为true时） */
+    /** 韵脚（当useRhyme为true时，用于第一组押韵句；未指定时自动选择） */
     rhymeScheme?: RhymeScheme
+    /** 段内押韵格式：AABB、ABAB、ABCB、monorhyme 或自定义字母串（当useRhyme为true时） */
+    rhymePattern?: string
+    /** 是否每段换韵（当useRhyme为true时） */
+    rhymeChange?: boolean
+    /** 用词倾向（可选，默认不偏向） */
+    vocabulary?: VocabularyLevel
+    /** 主题（名词类别，如 天文、宗教；可选） */
+    topics?: string[]
+    /** 主题约束强度（默认 prefer） */
+    topicStrictness?: TopicStrictness
+    /** 同一词汇在多少行之内不重复（默认全诗不重复，0 表示不限制） */
+    repeatCooldown?: number
+    /** 回避最近存档的多少首诗中用过的词汇（默认 0，不回避） */
+    avoidRecentPoems?: number
+    /** 格律诗体（可选，指定后每行字数固定，段数与行数由诗体决定） */
+    form?: PoemForm
+    /** 是否对仗：每段中相邻两行（第1与第2行、第3与第4行……）共用句型，逐词对仗 */
+    couplet?: boolean
+    /** 藏头文字（可选，各字依次作为每行的首字） */
+    acrostic?: string
+    /** 必须出现在诗中的词（可选，分散安排在各段） */
+    mustInclude?: RequiredWord[]
+    /** 随机种子（相同种子与选项将生成相同的诗歌） */
+    seed?: number
+    /** 是否记录生成轨迹 */
+    explain?: boolean
+    /** 生成多少首候选诗歌，取得分最高的一首（默认 1） */
+    bestOf?: number
+    /** 是否为诗歌评分（bestOf 大于 1 时总是评分） */
+    score?: boolean
 }
 
 /** 生成的诗歌 */
@@ -109,10 +368,112 @@ export interface GeneratedPoem {
     lines: string[]
     /** 生成选项 */
     options: PoetryGenerationOptions
+    /** 实际使用的随机种子 */
+    seed: number
+    /** 押韵方案（当useRhyme为true时） */
+    rhymePlan?: RhymePlan
+    /** 逐行生成轨迹（当explain为true时） */
+    trace?: LineTrace[]
+    /** 诗中使用的词汇（词库原词，按出现顺序） */
+    words?: string[]
+    /** 藏头结果（当指定藏头文字时） */
+    acrostic?: AcrosticLine[]
+    /** 必用词的安排结果（当指定必用词时） */
+    requiredWords?: RequiredWordPlacement[]
+    /** 诗歌评分（当选项要求评分或 bestOf 大于1时） */
+    score?: PoemScore
+    /** 各候选诗歌的种子与总分（当 bestOf 大于1时） */
+    candidates?: PoemCandidate[]
     /** 生成时间 */
     createdAt: Date
 }
 
+/** 诗歌评分的各项得分（0-1，越高越好） */
+export interface PoemScoreBreakdown {
+    /** 押韵：押韵行句末的词按词库中的韵母确实押韵的比例 */
+    rhyme: number
+    /** 用词重复：诗中词汇不重复的比例 */
+    repetition: number
+    /** 句长变化：各行字数越接近得分越高 */
+    lengthVariance: number
+    /** 叹词：以叹词开头的行不超过四分之一时为满分 */
+    interjection: number
+    /** 残留：没有残留词性标记或空词槽的行的比例 */
+    leftover: number
+}
+
+/** 诗歌评分 */
+export interface PoemScore {
+    /** 总分（0-100），各项得分的加权平均 */
+    total: number
+    /** 各项得分 */
+    breakdown: PoemScoreBreakdown
+    /** 扣分的原因 */
+    issues: string[]
+}
+
+/** 押韵检查的选项 */
+export interface RhymeCheckOptions {
+    /** 段内押韵格式：AABB、ABAB、ABCB、monorhyme 或自定义字母串（默认沿用原程序的规则） */
+    pattern?: string
+    /** 第一组押韵句应押的韵（默认取该组中最多的韵母） */
+    rhymeScheme?: RhymeScheme
+    /** 每行最多给出的替换建议数（默认 5） */
+    maxSuggestions?: number
+}
+
+/** 押韵检查中一行的结果 */
+export interface RhymeCheckLine {
+    /** 行号（从0开始，不计空行） */
+    lineIndex: number
+    /** 段号（从0开始，段落之间以空行分隔） */
+    stanzaIndex: number
+    /** 诗句 */
+    line: string
+    /** 句末词：词库中与句尾匹配的最长的词（找不到时省略） */
+    word?: string
+    /** 句末词的韵母（多音词可有多个） */
+    vowels: string[]
+    /** 句末词之后跳过的语气词 */
+    particle?: string
+    /** 押韵格式中该行的字母，- 表示不押韵 */
+    letter: string
+    /** 该行应押的韵（不押韵的行省略） */
+    expectedRhyme?: RhymeScheme
+    /** 检查结果：押韵、不押韵、无须押韵、句末词不在词库中 */
+    status: 'rhymed' | 'broken' | 'unrhymed' | 'unknown'
+    /** 替换建议：与句末词同一词库、韵母为应押之韵的词（仅不押韵的行） */
+    suggestions: string[]
+}
+
+/** 押韵检查的结果 */
+export interface RhymeCheckResult {
+    /** 每段中各押韵字母应押的韵 */
+    stanzaRhymes: Record<string, RhymeScheme>[]
+    /** 各行的检查结果 */
+    lines: RhymeCheckLine[]
+}
+
+/** 候选诗歌 */
+export interface PoemCandidate {
+    /** 随机种子（以此种子单独生成即可复现该候选） */
+    seed: number
+    /** 总分 */
+    total: number
+}
+
+/** 押韵方案 */
+export interface RhymePlan {
+    /** 段内押韵格式（每行一个字母，- 表示不押韵） */
+    pattern: string
+    /** 全诗每行的押韵字母 */
+    lineLetters: string[]
+    /** 全诗每行的韵脚（不押韵的行为空字符串） */
+    lineRhymes: RhymeScheme[]
+    /** 每段中各押韵字母对应的韵脚 */
+    stanzaRhymes: Record<string, RhymeScheme>[]
+}
+
 /** 词汇选择上下文 */
 export interface WordSelectionContext {
     /** 词性标记 */
@@ -121,4 +482,106 @@ export interface WordSelectionContext {
     needsRhyme: boolean
     /** 韵脚要求 */
     rhymeScheme?: RhymeScheme
+    /** 用词倾向 */
+    vocabulary?: VocabularyLevel
+    /** 主题（名词类别） */
+    topics?: string[]
+    /** 主题约束强度 */
+    topicStrictness?: TopicStrictness
+    /** 本诗中需要回避的词汇（冷却期内已用过的词） */
+    usedWords?: ReadonlySet<string>
+    /** 最近存档的诗中用过的词汇 */
+    archivedWords?: ReadonlySet<string>
+    /** 要求的字数（按填入诗句的文本计算，不含标点，可选） */
+    length?: number
+    /** 对仗的另一行在同一词槽选出的词（可选） */
+    counterpart?: WordSelection
+    /** 要求的首字（可选，用于藏头诗） */
+    initial?: string
+    /** 名词类别的权重倍数（来自风格配置，可选），权重为 0 的类别不参与选词 */
+    classWeights?: Record<string, number>
+    /** 必须选用的词汇（可选，用于必用词） */
+    required?: WordRecord
+}
+
+/** 对仗的处理结果：字数与名词属性均相同、仅字数相同、无法对仗 */
+export type ParallelStatus = 'matched' | 'lengthOnly' | 'unmatched'
+
+/** 韵脚约束的处理结果：未要求、已按韵脚筛选、无可用押韵词而回退 */
+export type RhymeStatus = 'none' | 'applied' | 'fallback'
+
+/** 词汇选择结果 */
+export interface WordSelection {
+    /** 填入诗句的文本 */
+    text: string
+    /** 来源词库 */
+    lexicon: LexiconName
+    /** 选中的词汇记录（词库为空时没有记录） */
+    record?: WordRecord
+    /** 韵脚约束状态 */
+    rhymeStatus: RhymeStatus
+    /** 候选词汇均已用过，只得重复使用 */
+    repeated?: boolean
+    /** 对仗状态（仅对仗行） */
+    parallelStatus?: ParallelStatus
+}
+
+/** 词槽生成轨迹 */
+export interface SlotTrace {
+    /** 在工作结构中的元素位置（从0开始） */
+    elementIndex: number
+    /** 结构中的原始标记 */
+    tag: string
+    /** 规范化后的词性 */
+    partOfSpeech: PartOfSpeech
+    /** 该词槽是否受韵脚约束（仅押韵行的句末词） */
+    needsRhyme: boolean
+    /** 选词结果 */
+    selection: WordSelection
+}
+
+/** 诗句生成轨迹 */
+export interface LineTrace {
+    /** 来源句型在句型库中的序号（从0开始，未知或由文法生成时为-1） */
+    structureIndex: number
+    /** 展开后的工作结构 */
+    structure: WorkingStructure
+    /** 各词槽的选词记录 */
+    slots: SlotTrace[]
+    /** 藏头结果（该行有藏头字时） */
+    acrostic?: AcrosticLine
+}
+
+/** 藏头诗中一行的藏头结果 */
+export interface AcrosticLine {
+    /** 行号（从0开始） */
+    lineIndex: number
+    /** 藏头字 */
+    character: string
+    /** 是否恰好以藏头字开头（否则为在句首加字） */
+    exact: boolean
+}
+
+/** 数据源 - 按文件名读写数据文件的内容 */
+export interface DataSource {
+    /** 读取文件内容，文件不存在时返回 null */
+    read(filename: string): string | null
+    /** 写入文件内容 */
+    write(filename: string, content: string): void
+}
+
+/** 日志输出 */
+export interface Logger {
+    /** 输出进度信息 */
+    info(message: string): void
+    /** 输出警告 */
+    warn(message: string): void
+}
+
+/** 随机数源 */
+export interface RandomSource {
+    /** 以指定种子重置随机序列 */
+    setSeed(seed: number): void
+    /** 返回 [0, 1) 区间内的随机数 */
+    next(): number
 }
@@ -1,3 +1,6 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
 import { beforeEach, describe, expect, it } from 'vitest'
 import { DataService } from '../src/services/data-service'
 
@@ -5,8 +8,7 @@ describe('DataService', () => {
     let dataService: DataService
 
     beforeEach(() => {
-        dataService = DataService.getInstance()
-        dataService.clearCache() // 确保每次测试都重新加载数据
+        dataService = DataService.fromDirectory() // 每次测试使用各自的实例，重新加载数据
     })
 
     describe('基本数据加载功能', () => {
@@ -106,6 +108,67 @@ describe('DataService', () => {
         })
     })
 
+    describe('风格配置', () => {
+        it('应该能够获取内置的风格配置', () => {
+            expect(dataService.getStyleProfile('quiet').structureLength).toEqual({ max: 9 })
+            expect(dataService.getStyleProfile('bold').name).toBe('bold')
+            expect(() => dataService.getStyleProfile('baroque')).toThrow('未知的风格')
+        })
+
+        it('应该能够从文件载入风格配置', () => {
+            const dir = mkdtempSync(join(tmpdir(), 'style-'))
+            const filePath = join(dir, 'night.json')
+            writeFileSync(filePath, JSON.stringify({ name: '夜曲', interjectionWeight: 0, rhyme: { enabled: true } }))
+
+            try {
+                expect(dataService.loadStyleProfile(filePath)).toEqual({
+                    name: '夜曲',
+                    interjectionWeight: 0,
+                    rhyme: { enabled: true },
+                })
+            } finally {
+                rmSync(dir, { recursive: true })
+            }
+        })
+
+        it('应该拒绝无效的风格配置', () => {
+            const dir = mkdtempSync(join(tmpdir(), 'style-'))
+            const write = (name: string, content: string) => {
+                const filePath = join(dir, name)
+                writeFileSync(filePath, content)
+                return filePath
+            }
+
+            try {
+                expect(() => dataService.loadStyleProfile(join(dir, 'missing.json'))).toThrow('无法加载风格配置文件')
+                expect(() => dataService.loadStyleProfile(write('broken.json', '{'))).toThrow('无法加载风格配置文件')
+                expect(() => dataService.loadStyleProfile(write('anonymous.json', '{}'))).toThrow('缺少风格名称')
+                expect(() =>
+                    dataService.loadStyleProfile(
+                        write('negative.json', JSON.stringify({ name: 'x', nounClassWeights: { 天文: -1 } }))
+                    )
+                ).toThrow('nounClassWeights 的权重必须是非负数')
+                expect(() =>
+                    dataService.loadStyleProfile(
+                        write('length.json', JSON.stringify({ name: 'x', structureLength: { max: 0 } }))
+                    )
+                ).toThrow('structureLength')
+                expect(() =>
+                    dataService.loadStyleProfile(
+                        write('range.json', JSON.stringify({ name: 'x', structureLength: { min: 9, max: 5 } }))
+                    )
+                ).toThrow('structureLength 的 min 不能大于 max')
+                expect(() =>
+                    dataService.loadStyleProfile(
+                        write('grammar.json', JSON.stringify({ name: 'x', grammar: { start: 'S', rules: { S: 1 } } }))
+                    )
+                ).toThrow('grammar')
+            } finally {
+                rmSync(dir, { recursive: true })
+            }
+        })
+    })
+
     describe('缓存功能', () => {
         it('应该能够清除缓存', () => {
             // 先加载一些数据
@@ -120,11 +183,13 @@ describe('DataService', () => {
             expect(nouns).toBeDefined()
         })
 
-        it('应该使用单例模式', () => {
+        it('默认实例应该是共享的，由目录创建的实例各自独立', () => {
             const instance1 = DataService.getInstance()
             const instance2 = DataService.getInstance()
 
             expect(instance1).toBe(instance2)
+            expect(DataService.fromDirectory()).not.toBe(DataService.fromDirectory())
+            expect(dataService).not.toBe(instance1)
         })
     })
 
@@ -159,8 +224,6 @@ describe('DataService', () => {
             const structures = dataService.getSentenceStructures()
 
             structures.forEach((structure) => {
-                expect(structure.elements.length).toBe(27)
-
                 // 检查是否有非空元素
                 const nonEmptyElements = structure.elements.filter((element: string) => element.length > 0)
                 expect(nonEmptyElements.length).toBeGreaterThan(0)
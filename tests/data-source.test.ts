@@ -0,0 +1,190 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DataService } from '@/services/data-service'
+import {
+    DATA_DIR_ENV,
+    DEFAULT_DATA_DIR,
+    DEFAULT_STATE_DIR,
+    FileDataSource,
+    MemoryDataSource,
+    resolveDataDir,
+    resolveStateDir,
+    STATE_DIR_ENV,
+} from '@/services/data-source'
+import { PoetryEngine } from '@/services/poetry-engine'
+
+describe('DataSource', () => {
+    let dir: string
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'cyberpoet-data-'))
+    })
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true })
+        vi.unstubAllEnvs()
+        vi.restoreAllMocks()
+    })
+
+    describe('数据源', () => {
+        it('文件目录数据源应该读写目录中的文件，文件不存在时返回 null', () => {
+            const source = new FileDataSource(dir)
+
+            expect(source.read('nouns.json')).toBeNull()
+            source.write('nouns.json', '[]')
+            expect(source.read('nouns.json')).toBe('[]')
+            expect(readFileSync(join(dir, 'nouns.json'), 'utf-8')).toBe('[]')
+            // 先写临时文件再改名，不留下临时文件
+            expect(readdirSync(dir)).toEqual(['nouns.json'])
+        })
+
+        it('内存数据源应该把非字符串的内容按 JSON 保存，写入不落盘', () => {
+            const source = new MemoryDataSource({ 'nouns.json': [{ word: '月亮' }], 'note.txt': '文字' })
+
+            expect(JSON.parse(source.read('nouns.json') ?? '')).toEqual([{ word: '月亮' }])
+            expect(source.read('note.txt')).toBe('文字')
+            expect(source.read('missing.json')).toBeNull()
+
+            source.write('missing.json', '{}')
+            expect(source.read('missing.json')).toBe('{}')
+        })
+
+        it('数据目录依次取参数、环境变量与内置的数据目录', () => {
+            expect(resolveDataDir()).toBe(DEFAULT_DATA_DIR)
+            expect(readdirSync(DEFAULT_DATA_DIR)).toContain('nouns.json')
+
+            vi.stubEnv(DATA_DIR_ENV, dir)
+            expect(resolveDataDir()).toBe(dir)
+            expect(resolveDataDir(DEFAULT_DATA_DIR)).toBe(DEFAULT_DATA_DIR)
+        })
+
+        it('状态目录依次取参数、环境变量与程序所在的项目目录', () => {
+            expect(resolveStateDir()).toBe(DEFAULT_STATE_DIR)
+            expect(readdirSync(DEFAULT_STATE_DIR)).toContain('package.json')
+
+            vi.stubEnv(STATE_DIR_ENV, dir)
+            expect(resolveStateDir()).toBe(dir)
+            expect(resolveStateDir(DEFAULT_STATE_DIR)).toBe(DEFAULT_STATE_DIR)
+        })
+    })
+
+    describe('由数据源创建数据访问层', () => {
+        const noun = { word: '月亮', vowel: 'ang', class: '天文', property: '物品', liberty: '', frequency: 5 }
+
+        it('应该从内存数据源读取数据，缺少数据文件时报错', () => {
+            const dataService = new DataService(new MemoryDataSource({ 'nouns.json': [noun] }))
+
+            expect(dataService.getNouns()).toEqual([noun])
+            expect(() => dataService.getAdjectives()).toThrow('无法加载数据文件 adjectives.json')
+        })
+
+        it('添加的句型应该写回数据源', () => {
+            const source = new MemoryDataSource({ 'sentence-structures.json': [] })
+            const dataService = new DataService(source)
+            const structure = { structure: 'MM', type: '', elements: ['MM'], punctuation: '' }
+
+            expect(dataService.addSentenceStructure(structure as never)).toBe(0)
+            expect(JSON.parse(source.read('sentence-structures.json') ?? '')).toEqual([structure])
+        })
+
+        it('配置文件不存在时编号从 0 开始，配置与存档用词记录写入状态数据源', async () => {
+            const source = new MemoryDataSource()
+            const state = new MemoryDataSource()
+            const dataService = new DataService(source, state)
+
+            expect(dataService.getConfig().poemNumber).toBe(0)
+            expect(dataService.getPoemHistory()).toEqual([])
+
+            await dataService.updatePoemNumber()
+            await dataService.recordPoemWords(1, ['月亮'])
+            expect(JSON.parse(state.read('config.json') ?? '').poemNumber).toBe(1)
+            expect(JSON.parse(state.read('poem-history.json') ?? '')).toEqual([{ poemNumber: 1, words: ['月亮'] }])
+            expect(source.read('config.json')).toBeNull()
+        })
+
+        it('在其他工作目录中也应该读取内置的数据目录与项目目录中的状态', async () => {
+            const cwd = process.cwd()
+            process.chdir(dir)
+            try {
+                const dataService = DataService.fromDirectory()
+                expect(dataService.getNouns().length).toBeGreaterThan(0)
+                expect(dataService.getConfig()).toEqual(
+                    JSON.parse(readFileSync(join(DEFAULT_STATE_DIR, 'config.json'), 'utf-8'))
+                )
+
+                // 指定状态目录时，编号写入该目录（不存在时创建）而不是当前工作目录
+                const stateDir = join(dir, 'state')
+                await DataService.fromDirectory(undefined, stateDir).updatePoemNumber()
+                expect(readdirSync(stateDir)).toEqual(['config.json'])
+                expect(readdirSync(dir)).toEqual(['state'])
+            } finally {
+                process.chdir(cwd)
+            }
+        })
+
+        it('引擎应该只使用所给数据访问层中的词库', () => {
+            const files = Object.fromEntries(
+                readdirSync(DEFAULT_DATA_DIR).map((filename) => [
+                    filename,
+                    readFileSync(join(DEFAULT_DATA_DIR, filename), 'utf-8'),
+                ])
+            )
+            files['nouns.json'] = JSON.stringify([noun])
+
+            const engine = new PoetryEngine({
+                data: new DataService(new MemoryDataSource(files)),
+                logger: { info: () => {}, warn: () => {} },
+            })
+            const poem = engine.generatePoetry({
+                style: 'bold',
+                paragraphCount: 1,
+                linesPerParagraph: 4,
+                useRhyme: false,
+                repeatCooldown: 0,
+                seed: 1,
+                explain: true,
+            })
+
+            const nouns = poem.trace
+                ?.flatMap((line) => line.slots)
+                .filter((slot) => slot.selection.lexicon === 'nouns')
+                .map((slot) => slot.selection.text)
+            expect(nouns?.length).toBeGreaterThan(0)
+            expect(new Set(nouns)).toEqual(new Set(['月亮']))
+        })
+
+        it('状态读写失败时数据访问层应该报错，引擎只通过注入的日志提示', async () => {
+            const state = new MemoryDataSource({ 'poem-history.json': '[' })
+            state.write = () => {
+                throw new Error('只读')
+            }
+            const dataService = new DataService(new FileDataSource(DEFAULT_DATA_DIR), state)
+            expect(() => dataService.getPoemHistory()).toThrow('无法加载存档用词记录')
+            await expect(dataService.updatePoemNumber()).rejects.toThrow('无法保存配置文件')
+
+            const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+            const consoleLog = vi.spyOn(console, 'log').mockImplementation(() => {})
+            const logger = { info: vi.fn(), warn: vi.fn() }
+            const engine = new PoetryEngine({ data: dataService, logger })
+            const poem = engine.generatePoetry({
+                style: 'bold',
+                paragraphCount: 1,
+                linesPerParagraph: 2,
+                useRhyme: false,
+                avoidRecentPoems: 3,
+                seed: 1,
+            })
+            await engine.savePoetry(poem, '无题', dir)
+
+            expect(logger.warn.mock.calls.map(([message]) => message)).toEqual([
+                expect.stringContaining('无法加载存档用词记录'),
+                expect.stringContaining('无法加载存档用词记录'),
+                expect.stringContaining('无法保存配置文件'),
+            ])
+            expect(consoleWarn).not.toHaveBeenCalled()
+            expect(consoleLog).not.toHaveBeenCalled()
+        })
+    })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { FormPlanner, POEM_FORMS } from '@/services/form-planner'
+import { SeededRandom } from '@/services/random-source'
+import type { PoetryGenerationOptions } from '@/types'
+
+describe('FormPlanner', () => {
+    describe('诗体', () => {
+        it('应该内置绝句和律诗', () => {
+            expect(POEM_FORMS.wujue).toEqual({ name: '五言绝句', charactersPerLine: 5, lineCount: 4 })
+            expect(POEM_FORMS.qilv).toEqual({ name: '七言律诗', charactersPerLine: 7, lineCount: 8 })
+        })
+
+        it('应该按诗体调整段数与行数', () => {
+            const options: PoetryGenerationOptions = {
+                style: 'bold',
+                paragraphCount: 3,
+                linesPerParagraph: 5,
+                useRhyme: false,
+                form: 'wulv',
+            }
+
+            const applied = FormPlanner.applyForm(options)
+            expect(applied.paragraphCount).toBe(1)
+            expect(applied.linesPerParagraph).toBe(8)
+            expect(FormPlanner.applyForm({ ...options, form: undefined })).toEqual({ ...options, form: undefined })
+        })
+
+        it('应该拒绝未知的诗体', () => {
+            expect(() => FormPlanner.getForm('sanyan' as never)).toThrow('未知的诗体')
+        })
+    })
+
+    describe('字数计算', () => {
+        it('应该不计标点和空白', () => {
+            expect(FormPlanner.countCharacters('不，我不想跑！')).toBe(5)
+            expect(FormPlanner.countCharacters('草说：“这就是夏天。”')).toBe(7)
+            expect(FormPlanner.countCharacters('你好…… ')).toBe(2)
+        })
+    })
+
+    describe('词槽字数分配', () => {
+        const planner = new FormPlanner(new SeededRandom(5))
+
+        it('应该找到总和恰好等于目标的字数组合', () => {
+            const lengths = planner.fitSlotLengths(
+                [
+                    [1, 2, 3],
+                    [2, 4],
+                    [1, 2],
+                ],
+                7
+            )
+
+            expect(lengths).not.toBeNull()
+            expect(lengths?.reduce((sum, length) => sum + length, 0)).toBe(7)
+            expect([1, 2, 3]).toContain(lengths?.[0])
+            expect([2, 4]).toContain(lengths?.[1])
+            expect([1, 2]).toContain(lengths?.[2])
+        })
+
+        it('无法凑成时应该返回 null', () => {
+            expect(planner.fitSlotLengths([[2], [2]], 5)).toBeNull()
+            expect(planner.fitSlotLengths([[2], []], 2)).toBeNull()
+        })
+
+        it('没有词槽时只有目标为0才能凑成', () => {
+            expect(planner.fitSlotLengths([], 0)).toEqual([])
+            expect(planner.fitSlotLengths([], 3)).toBeNull()
+        })
+
+        it('相同种子应该得到相同的分配', () => {
+            const slots = [
+                [1, 2, 3, 4],
+                [1, 2, 3, 4],
+                [1, 2, 3, 4],
+            ]
+            const first = new FormPlanner(new SeededRandom(9)).fitSlotLengths(slots, 7)
+            const second = new FormPlanner(new SeededRandom(9)).fitSlotLengths(slots, 7)
+            expect(first).toEqual(second)
+        })
+    })
+})
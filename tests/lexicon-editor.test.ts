@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { DataService } from '@/services/data-service'
+import { MemoryDataSource } from '@/services/data-source'
+import { LexiconEditor } from '@/services/lexicon-editor'
+import { parseWordPack } from '@/services/word-pack'
+import type { WordRecord } from '@/types'
+
+describe('LexiconEditor', () => {
+    let source: MemoryDataSource
+    let dataService: DataService
+    let editor: LexiconEditor
+
+    const record = (word: string, fields: Partial<WordRecord> = {}): WordRecord => ({
+        word,
+        vowel: 'ang',
+        class: '',
+        property: '',
+        liberty: '',
+        frequency: null,
+        ...fields,
+    })
+
+    /** 读取数据源中的词库文件 */
+    const fileOf = (filename: string): WordRecord[] => JSON.parse(source.read(filename) ?? '')
+
+    beforeEach(() => {
+        source = new MemoryDataSource({
+            'nouns.json': [
+                record('月亮', { property: '时间' }),
+                record('太阳'),
+                record('大风', { vowel: 'eng' }),
+                record('村庄'),
+            ],
+            'adjectives.json': [record('明亮')],
+            'intransitive-verbs.json': [record('骑/马', { vowel: 'a' })],
+            'transitive-verbs.json': [],
+            'interjections.json': [record('嗯', { vowel: 'n' })],
+        })
+        dataService = new DataService(source)
+        editor = new LexiconEditor(dataService)
+    })
+
+    describe('添加', () => {
+        it('新词应该插在同一韵母与属性的最后一个词之后，字段顺序与数据文件一致', () => {
+            const added = editor.add('nouns', { frequency: 3, property: '', vowel: 'ang', word: ' 远方 ' })
+
+            expect(Object.keys(added)).toEqual(['word', 'vowel', 'class', 'property', 'liberty', 'frequency'])
+            expect(fileOf('nouns.json').map((noun) => noun.word)).toEqual(['月亮', '太阳', '大风', '村庄', '远方'])
+
+            editor.add('nouns', { word: '早晨', vowel: 'en', property: '时间' })
+            editor.add('nouns', { word: '清晨', vowel: 'en', property: '时间' })
+            editor.add('nouns', { word: '风筝', vowel: 'eng', property: '' })
+            expect(fileOf('nouns.json').map((noun) => noun.word)).toEqual([
+                '月亮',
+                '太阳',
+                '大风',
+                '风筝',
+                '村庄',
+                '远方',
+                '早晨',
+                '清晨',
+            ])
+            expect(source.read('nouns.json')?.endsWith(']\n')).toBe(true)
+            expect(dataService.getNouns()).toHaveLength(8)
+        })
+
+        it('已有该词时应该报错，动词忽略分隔符比较', () => {
+            expect(() => editor.add('nouns', { word: '月亮', vowel: 'ang', property: '' })).toThrow('已经有该词：月亮')
+            expect(() => editor.add('intransitiveVerbs', { word: '骑马', vowel: 'a', property: '' })).toThrow(
+                '已经有该词'
+            )
+        })
+
+        it('应该检查韵母、属性、频率与动词的分隔符', () => {
+            expect(() => editor.add('adjectives', { word: '温柔', vowel: 'o' })).toThrow('韵母 o 无效')
+            expect(() => editor.add('adjectives', { word: '温柔' })).toThrow('缺少韵母')
+            expect(() => editor.add('nouns', { word: '远方', vowel: 'ang' })).toThrow('必须指定属性')
+            expect(() => editor.add('intransitiveVerbs', { word: '飞翔', vowel: 'ang' })).toThrow('必须指定属性')
+            expect(() => editor.add('adjectives', { word: '温柔', vowel: 'ou', frequency: 6 })).toThrow('频率必须是')
+            expect(() => editor.add('adjectives', { word: '好/看', vowel: 'an' })).toThrow('只有动词可以用「/」')
+            expect(() => editor.add('transitiveVerbs', { word: '骑/', vowel: 'a' })).toThrow('动词与宾语两部分')
+            expect(() => editor.add('adjectives', { word: '温 柔', vowel: 'ou' })).toThrow('含有空白')
+
+            expect(editor.add('transitiveVerbs', { word: '抚/摸', vowel: 'ao' }).word).toBe('抚/摸')
+            expect(editor.add('adjectives', { word: '温柔', vowel: 'ou' }).property).toBe('')
+        })
+    })
+
+    describe('删除与修改', () => {
+        it('应该删除该词的全部记录，没有该词时报错', () => {
+            expect(editor.remove('intransitiveVerbs', '骑马')).toEqual([record('骑/马', { vowel: 'a' })])
+            expect(fileOf('intransitive-verbs.json')).toEqual([])
+            expect(() => editor.remove('nouns', '星星')).toThrow('词库中没有该词：星星')
+        })
+
+        it('修改后的词条应该留在原处，改名时检查重复', () => {
+            expect(editor.edit('nouns', '太阳', { word: '夕阳', frequency: 2 })).toEqual(
+                record('夕阳', { frequency: 2 })
+            )
+            expect(fileOf('nouns.json').map((noun) => noun.word)).toEqual(['月亮', '夕阳', '大风', '村庄'])
+
+            expect(() => editor.edit('nouns', '夕阳', { word: '月亮' })).toThrow('已经有该词：月亮')
+            expect(() => editor.edit('nouns', '大风', { vowel: 'x' })).toThrow('韵母 x 无效')
+        })
+
+        it('修改其他字段时不检查原有的韵母', () => {
+            expect(editor.edit('interjections', '嗯', { frequency: 1 })).toEqual(
+                record('嗯', { vowel: 'n', frequency: 1 })
+            )
+        })
+    })
+
+    describe('查找与统计', () => {
+        beforeEach(() => {
+            dataService.addWordPack(parseWordPack({ nouns: [{ word: '月光', vowel: 'ang' }] }, '团队词汇', 'test'))
+        })
+
+        it('应该查找包含指定文字的词，包括词汇包中的词，可限定词库与韵母', () => {
+            expect(editor.search('月').map(({ record }) => [record.word, record.pack])).toEqual([
+                ['月亮', undefined],
+                ['月光', '团队词汇'],
+            ])
+            expect(editor.search('骑马')).toEqual([
+                { lexicon: 'intransitiveVerbs', record: record('骑/马', { vowel: 'a' }) },
+            ])
+            expect(editor.search('', { lexicons: ['nouns'], vowel: 'eng' }).map(({ record }) => record.word)).toEqual([
+                '大风',
+            ])
+        })
+
+        it('应该统计各词库的词数、韵母与属性，韵母按韵脚的顺序排列', () => {
+            const [nouns, , , transitiveVerbs, interjections] = editor.stats()
+
+            expect(nouns).toEqual({
+                lexicon: 'nouns',
+                total: 5,
+                vowels: { ang: 4, eng: 1 },
+                properties: { 时间: 1 },
+                packEntries: 1,
+            })
+            expect(transitiveVerbs.total).toBe(0)
+            expect(interjections.vowels).toEqual({ n: 1 })
+        })
+
+        it('编辑只改动数据文件，不写入词汇包中的词', () => {
+            editor.add('nouns', { word: '远方', vowel: 'ang', property: '' })
+
+            expect(fileOf('nouns.json').some((noun) => noun.word === '月光')).toBe(false)
+            expect(dataService.getNouns().map((noun) => noun.word)).toContain('月光')
+        })
+    })
+})
@@ -0,0 +1,154 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { DataService } from '@/services/data-service'
+import { PoemScorer } from '@/services/poem-scorer'
+import { PoetryEngine } from '@/services/poetry-engine'
+import { parseWordPack } from '@/services/word-pack'
+import type { GeneratedPoem, LineTrace, Logger, RhymeScheme } from '@/types'
+
+describe('PoemScorer', () => {
+    let dataService: DataService
+    let scorer: PoemScorer
+
+    /** 构造诗歌，lineRhymes 为各行的韵脚（空字符串表示不押韵） */
+    const poemWith = (
+        lines: string[],
+        fields: Partial<GeneratedPoem> = {},
+        lineRhymes?: RhymeScheme[]
+    ): GeneratedPoem => ({
+        lines,
+        options: { style: 'bold', paragraphCount: 1, linesPerParagraph: lines.length, useRhyme: !!lineRhymes },
+        seed: 1,
+        rhymePlan: lineRhymes && {
+            pattern: lineRhymes.map((rhyme) => (rhyme ? 'A' : '-')).join(''),
+            lineLetters: lineRhymes.map((rhyme) => (rhyme ? 'A' : '-')),
+            lineRhymes,
+            stanzaRhymes: [{ A: 'ang' }],
+        },
+        createdAt: new Date(),
+        ...fields,
+    })
+
+    beforeEach(() => {
+        dataService = DataService.fromDirectory()
+        scorer = new PoemScorer(dataService)
+    })
+
+    describe('各项得分', () => {
+        it('押韵应该按词库中句末词的韵母检查', () => {
+            const score = scorer.score(
+                poemWith(['我看见月亮', '星星在天上', '你是大风！', '我们是太阳……'], {}, ['ang', '', 'ang', 'ang'])
+            )
+
+            expect(score.breakdown.rhyme).toBeCloseTo(2 / 3, 3)
+            expect(score.issues).toEqual(['第3行句末的「大风」不押 ang 韵'])
+        })
+
+        it('重复的词汇应该扣分', () => {
+            const score = scorer.score(poemWith(['月亮', '月亮', '太阳'], { words: ['月亮', '月亮', '太阳', '旷野'] }))
+
+            expect(score.breakdown.repetition).toBe(0.75)
+            expect(score.issues).toContain('「月亮」重复出现 2 次')
+        })
+
+        it('各行字数越接近句长一项得分越高', () => {
+            expect(scorer.score(poemWith(['我看见月亮', '你是大风啊'])).breakdown.lengthVariance).toBe(1)
+            expect(scorer.score(poemWith(['月亮', '我在遥远的地方看见了月亮'])).breakdown.lengthVariance).toBeLessThan(
+                0.5
+            )
+        })
+
+        it('以叹词开头的行过多时应该扣分', () => {
+            expect(scorer.score(poemWith(['啊，月亮', '太阳', '大风', '旷野'])).breakdown.interjection).toBe(1)
+
+            const score = scorer.score(poemWith(['啊，月亮', '哈哈！太阳', '我想说，大风', '旷野']))
+            expect(score.breakdown.interjection).toBeCloseTo(1 / 3, 3)
+            expect(score.issues).toContain('3 行以叹词开头')
+        })
+
+        it('添加词汇包后应该识别包中的叹词', () => {
+            const poem = poemWith(['哇塞，月亮', '哇塞，太阳'])
+            expect(scorer.score(poem).breakdown.interjection).toBe(1)
+
+            dataService.addWordPack(parseWordPack({ interjections: [{ word: '哇塞' }] }, '团队词汇', 'test'))
+            expect(scorer.score(poem).breakdown.interjection).toBe(0)
+        })
+
+        it('残留的词性标记与空词槽应该扣分', () => {
+            const trace = [
+                { slots: [] },
+                { slots: [{ tag: 'XA', selection: { text: '', lexicon: 'adjectives', rhymeStatus: 'none' } }] },
+            ] as unknown as LineTrace[]
+            const score = scorer.score(poemWith(['我看见MM', '你是的大风', '太阳', '旷野'], { trace }))
+
+            expect(score.breakdown.leftover).toBe(0.5)
+            expect(score.issues).toEqual(['第1行残留词性标记「MM」', '第2行的 XA 词槽为空'])
+        })
+
+        it('含字母的词与选中的词不应该算作残留的词性标记', () => {
+            const trace = [
+                { slots: [] },
+                { slots: [{ tag: 'MM', selection: { text: 'DJ音乐', lexicon: 'nouns', rhymeStatus: 'none' } }] },
+            ] as unknown as LineTrace[]
+            const score = scorer.score(poemWith(['我看见X射线与DNA', '我听见DJ音乐', '我看见XADD'], { trace }))
+
+            expect(score.issues).toEqual(['第3行残留词性标记「XADD」'])
+        })
+
+        it('没有问题的诗应该是满分', () => {
+            const score = scorer.score(poemWith(['我看见月亮', '你是大风啊'], { words: ['月亮', '大风'] }, ['ang', '']))
+
+            expect(score).toEqual({
+                total: 100,
+                breakdown: { rhyme: 1, repetition: 1, lengthVariance: 1, interjection: 1, leftover: 1 },
+                issues: [],
+            })
+        })
+    })
+
+    describe('候选诗歌', () => {
+        const options = {
+            style: 'bold',
+            paragraphCount: 1,
+            linesPerParagraph: 4,
+            useRhyme: true,
+            seed: 10,
+        } as const
+
+        let logger: Logger
+        let engine: PoetryEngine
+
+        beforeEach(() => {
+            logger = { info: vi.fn(), warn: vi.fn() }
+            engine = new PoetryEngine({ data: dataService, logger })
+        })
+
+        it('要求评分时生成的诗歌应该带有评分', () => {
+            expect(engine.generatePoetry(options).score).toBeUndefined()
+
+            const poem = engine.generatePoetry({ ...options, score: true })
+            expect(poem.score?.total).toBeGreaterThan(0)
+            expect(poem.score?.total).toBeLessThanOrEqual(100)
+            expect(poem.candidates).toBeUndefined()
+        })
+
+        it('应该以相邻的种子生成候选诗歌，取得分最高的一首', () => {
+            const poem = engine.generatePoetry({ ...options, bestOf: 4 })
+
+            expect(poem.candidates?.map((candidate) => candidate.seed)).toEqual([10, 11, 12, 13])
+            const totals = poem.candidates?.map((candidate) => candidate.total) ?? []
+            expect(poem.score?.total).toBe(Math.max(...totals))
+            expect(logger.info).toHaveBeenCalledWith(expect.stringContaining(`种子：${poem.seed}`))
+
+            // 选中的诗歌的选项不含 bestOf，用其选项即可复现
+            expect(poem.options.bestOf).toBeUndefined()
+            expect(poem.options.seed).toBe(poem.seed)
+            const single = engine.generatePoetry(poem.options)
+            expect(single.lines).toEqual(poem.lines)
+            expect(single.score).toEqual(poem.score)
+        })
+
+        it('候选数量无效时应该报错', () => {
+            expect(() => engine.generatePoetry({ ...options, bestOf: 0 })).toThrow('候选诗歌的数量')
+        })
+    })
+})
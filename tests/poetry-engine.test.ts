@@ -1,13 +1,17 @@
-import { PoetryEngine } from '@/services/poetry-engine'
-import type { PoetryGenerationOptions } from '@/types'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DataService } from '@/services/data-service'
+import { FormPlanner } from '@/services/form-planner'
+import { PoetryEngine } from '@/services/poetry-engine'
+import type { LineTrace, PoetryGenerationOptions } from '@/types'
 
 describe('PoetryEngine', () => {
+    let dataService: DataService
     let engine: PoetryEngine
 
     beforeEach(() => {
         vi.useFakeTimers()
-        engine = new PoetryEngine()
+        dataService = DataService.fromDirectory()
+        engine = new PoetryEngine({ data: dataService })
     })
 
     afterEach(() => {
@@ -89,6 +93,787 @@ describe('PoetryEngine', () => {
         })
     })
 
+    describe('生成轨迹', () => {
+        it('开启explain时应该返回逐行的生成轨迹', () => {
+            const options: PoetryGenerationOptions = {
+                style: 'bold',
+                paragraphCount: 2,
+                linesPerParagraph: 3,
+                useRhyme: true,
+                rhymeScheme: 'ang',
+                seed: 1024,
+                explain: true,
+            }
+
+            const poem = engine.generatePoetry(options)
+            const structureCount = dataService.getSentenceStructures().length
+
+            expect(poem.trace).toHaveLength(poem.lines.length)
+            poem.trace?.forEach((lineTrace, index) => {
+                expect(lineTrace.structureIndex).toBeGreaterThanOrEqual(0)
+                expect(lineTrace.structureIndex).toBeLessThan(structureCount)
+                expect(lineTrace.slots.length).toBeGreaterThan(0)
+
+                // 每个词槽选出的词都应该出现在对应的诗句中
+                for (const slot of lineTrace.slots) {
+                    expect(poem.lines[index]).toContain(slot.selection.text)
+                    expect(lineTrace.structure.elements[slot.elementIndex]).toBe(slot.tag)
+                    expect(['none', 'applied', 'fallback']).toContain(slot.selection.rhymeStatus)
+                }
+            })
+        })
+
+        it('未开启explain时不应该返回生成轨迹', () => {
+            const poem = engine.generatePoetry({
+                style: 'quiet',
+                paragraphCount: 1,
+                linesPerParagraph: 2,
+                useRhyme: false,
+            })
+
+            expect(poem.trace).toBeUndefined()
+        })
+    })
+
+    describe('主题约束', () => {
+        it('严格主题约束时诗中的名词应该都来自主题类别', () => {
+            const poem = engine.generatePoetry({
+                style: 'bold',
+                paragraphCount: 2,
+                linesPerParagraph: 4,
+                useRhyme: false,
+                topics: ['宗教'],
+                topicStrictness: 'strict',
+                seed: 1999,
+                explain: true,
+            })
+
+            const nounSlots = (poem.trace ?? []).flatMap((lineTrace) =>
+                lineTrace.slots.filter((slot) => slot.selection.lexicon === 'nouns')
+            )
+            expect(nounSlots.length).toBeGreaterThan(0)
+            for (const slot of nounSlots) {
+                expect(slot.selection.record?.class).toBe('宗教')
+            }
+        })
+    })
+
+    describe('避免重复用词', () => {
+        /** 按出现顺序检查：除非候选词汇已经用尽，同一词汇不应该重复出现 */
+        const expectNoRepeats = (trace: LineTrace[], cooldown = Number.POSITIVE_INFINITY) => {
+            const lastSeen = new Map<string, number>()
+            trace.forEach((lineTrace, lineIndex) => {
+                for (const { selection } of lineTrace.slots) {
+                    const word = selection.record?.word
+                    if (!word) {
+                        continue
+                    }
+                    const seenAt = lastSeen.get(word)
+                    if (seenAt !== undefined && lineIndex - seenAt < cooldown) {
+                        expect(selection.repeated, `「${word}」在第${lineIndex + 1}行重复`).toBe(true)
+                    }
+                    lastSeen.set(word, lineIndex)
+                }
+            })
+        }
+
+        it('长诗中的词汇不应该重复，除非候选词汇已经用尽', () => {
+            const poem = engine.generatePoetry({
+                style: 'bold',
+                paragraphCount: 10,
+                linesPerParagraph: 12,
+                useRhyme: true,
+                rhymeScheme: 'ang',
+                seed: 404,
+                explain: true,
+            })
+
+            expectNoRepeats(poem.trace ?? [])
+
+            // 名词词库足够大，不应该出现重复
+            const nouns = (poem.trace ?? []).flatMap((lineTrace) =>
+                lineTrace.slots.filter((slot) => slot.selection.lexicon === 'nouns')
+            )
+            expect(nouns.length).toBeGreaterThan(50)
+            expect(new Set(nouns.map((slot) => slot.selection.record?.word)).size).toBe(nouns.length)
+        })
+
+        it('应该遵守冷却行数', () => {
+            const poem = engine.generatePoetry({
+                style: 'quiet',
+                paragraphCount: 4,
+                linesPerParagraph: 10,
+                useRhyme: false,
+                repeatCooldown: 3,
+                seed: 2024,
+                explain: true,
+            })
+
+            expectNoRepeats(poem.trace ?? [], 3)
+        })
+
+        it('冷却行数为0时不应该回避任何词汇', () => {
+            const poem = engine.generatePoetry({
+                style: 'bold',
+                paragraphCount: 4,
+                linesPerParagraph: 10,
+                useRhyme: false,
+                repeatCooldown: 0,
+                seed: 2024,
+                explain: true,
+            })
+
+            const slots = (poem.trace ?? []).flatMap((lineTrace) => lineTrace.slots)
+            expect(slots.every((slot) => !slot.selection.repeated)).toBe(true)
+        })
+
+        it('应该记录诗中使用的词汇', () => {
+            const poem = engine.generatePoetry({
+                style: 'bold',
+                paragraphCount: 1,
+                linesPerParagraph: 4,
+                useRhyme: false,
+                seed: 7,
+                explain: true,
+            })
+
+            const words = (poem.trace ?? []).flatMap((lineTrace) =>
+                lineTrace.slots.flatMap((slot) => (slot.selection.record ? [slot.selection.record.word] : []))
+            )
+            expect(poem.words).toEqual(words)
+        })
+
+        it('应该回避最近存档的诗中用过的词汇', () => {
+            const options: PoetryGenerationOptions = {
+                style: 'bold',
+                paragraphCount: 1,
+                linesPerParagraph: 4,
+                useRhyme: false,
+                seed: 99,
+            }
+            const archivedWords = engine.generatePoetry(options).words ?? []
+            const spy = vi.spyOn(dataService, 'getRecentPoemWords').mockReturnValue(archivedWords)
+
+            try {
+                const poem = engine.generatePoetry({ ...options, avoidRecentPoems: 3 })
+                expect(spy).toHaveBeenCalledWith(3)
+                const nouns = (poem.words ?? []).filter((word) =>
+                    dataService.getNouns().some((noun) => noun.word === word)
+                )
+                expect(nouns.some((word) => archivedWords.includes(word))).toBe(false)
+            } finally {
+                spy.mockRestore()
+            }
+        })
+
+        it('重写单行时应该回避其他行用过的词汇', () => {
+            const poem = engine.generatePoetry({
+                style: 'bold',
+                paragraphCount: 1,
+                linesPerParagraph: 6,
+                useRhyme: false,
+                seed: 31,
+                explain: true,
+            })
+
+            const rewritten = engine.regenerateLine(poem, 2)
+            const otherWords = new Set(
+                (rewritten.trace ?? [])
+                    .filter((_, index) => index !== 2)
+                    .flatMap((lineTrace) => lineTrace.slots.map((slot) => slot.selection.record?.word))
+            )
+            for (const { selection } of rewritten.trace?.[2].slots ?? []) {
+                if (selection.record && otherWords.has(selection.record.word)) {
+                    expect(selection.repeated).toBe(true)
+                }
+            }
+        })
+    })
+
+    describe('格律诗体', () => {
+        it.each(['wujue', 'qijue', 'wulv', 'qilv'] as const)('%s 的每一行都应该恰好符合字数', (form) => {
+            const definition = FormPlanner.getForm(form)
+
+            for (const style of ['quiet', 'bold'] as const) {
+                const poem = engine.generatePoetry({
+                    style,
+                    paragraphCount: 3,
+                    linesPerParagraph: 3,
+                    useRhyme: true,
+                    form,
+                    seed: 2002,
+                })
+
+                expect(poem.lines).toHaveLength(definition.lineCount)
+                for (const line of poem.lines) {
+                    expect(FormPlanner.countCharacters(line), line).toBe(definition.charactersPerLine)
+                }
+            }
+        })
+
+        it('重写单行或单个词后仍应该符合字数', () => {
+            const poem = engine.generatePoetry({
+                style: 'bold',
+                paragraphCount: 1,
+                linesPerParagraph: 4,
+                useRhyme: true,
+                form: 'qijue',
+                seed: 77,
+                explain: true,
+            })
+
+            const rewritten = engine.regenerateSlot(engine.regenerateLine(poem, 1), 2, 0)
+            for (const line of rewritten.lines) {
+                expect(FormPlanner.countCharacters(line), line).toBe(7)
+            }
+        })
+
+        it('无论如何都凑不成字数时应该报错', () => {
+            const spy = vi
+                .spyOn(FormPlanner, 'getForm')
+                .mockReturnValue({ name: '零言诗', charactersPerLine: 0, lineCount: 2 })
+
+            try {
+                expect(() =>
+                    engine.generatePoetry({
+                        style: 'bold',
+                        paragraphCount: 1,
+                        linesPerParagraph: 2,
+                        useRhyme: false,
+                        form: 'wujue',
+                    })
+                ).toThrow('无法写出零言诗的第1行')
+            } finally {
+                spy.mockRestore()
+            }
+        })
+    })
+
+    describe('对仗', () => {
+        /** 检查两行逐词对仗：句型相同，词性、字数相同，名词属性相同（无法对仗的词除外） */
+        const expectParallel = (first: LineTrace, second: LineTrace) => {
+            expect(second.structure.elements).toEqual(first.structure.elements)
+            expect(second.slots).toHaveLength(first.slots.length)
+
+            second.slots.forEach((slot, index) => {
+                const counterpart = first.slots[index]
+                expect(slot.partOfSpeech).toBe(counterpart.partOfSpeech)
+                if (slot.selection.parallelStatus === 'unmatched') {
+                    return
+                }
+                expect(FormPlanner.countCharacters(slot.selection.text)).toBe(
+                    FormPlanner.countCharacters(counterpart.selection.text)
+                )
+                if (slot.selection.parallelStatus === 'matched' && slot.selection.lexicon === 'nouns') {
+                    expect(slot.selection.record?.property).toBe(counterpart.selection.record?.property)
+                }
+            })
+        }
+
+        it('对联的上下联应该共用句型并逐词对仗', () => {
+            for (const seed of [1, 2, 3, 4, 5]) {
+                const couplet = engine.generateCouplet({ style: 'bold', useRhyme: false, seed, explain: true })
+
+                expect(couplet.lines).toHaveLength(2)
+                expect(couplet.options.couplet).toBe(true)
+                const [first, second] = couplet.trace ?? []
+                expectParallel(first, second)
+            }
+        })
+
+        it('诗中开启对仗时每段相邻两行应该对仗', () => {
+            const poem = engine.generatePoetry({
+                style: 'quiet',
+                paragraphCount: 2,
+                linesPerParagraph: 5,
+                useRhyme: true,
+                couplet: true,
+                seed: 321,
+                explain: true,
+            })
+            const trace = poem.trace ?? []
+
+            // 每段第1与第2行、第3与第4行对仗，第5行不对仗
+            for (const paragraphStart of [0, 5]) {
+                expectParallel(trace[paragraphStart], trace[paragraphStart + 1])
+                expectParallel(trace[paragraphStart + 2], trace[paragraphStart + 3])
+                expect(trace[paragraphStart + 4].slots.every((slot) => !slot.selection.parallelStatus)).toBe(true)
+            }
+
+            // 押韵行的句末词仍应押韵
+            trace.forEach((lineTrace, index) => {
+                const rhymeScheme = poem.rhymePlan?.lineRhymes[index]
+                const lastSlot = lineTrace.slots[lineTrace.slots.length - 1]
+                if (rhymeScheme && lastSlot.selection.rhymeStatus === 'applied') {
+                    expect(lastSlot.selection.record?.vowel).toBe(rhymeScheme)
+                }
+            })
+        })
+
+        it('对仗的格律诗每行仍应该符合字数', () => {
+            const poem = engine.generatePoetry({
+                style: 'bold',
+                paragraphCount: 1,
+                linesPerParagraph: 4,
+                useRhyme: true,
+                form: 'wulv',
+                couplet: true,
+                seed: 8,
+                explain: true,
+            })
+
+            for (const line of poem.lines) {
+                expect(FormPlanner.countCharacters(line), line).toBe(5)
+            }
+            const trace = poem.trace ?? []
+            expect(trace[1].structure.elements).toEqual(trace[0].structure.elements)
+        })
+
+        it('重写对仗行时应该保留句型并与另一行对仗', () => {
+            const couplet = engine.generateCouplet({ style: 'bold', useRhyme: false, seed: 64, explain: true })
+
+            const rewritten = engine.regenerateLine(couplet, 0)
+            const [first, second] = rewritten.trace ?? []
+            expect(rewritten.lines[1]).toBe(couplet.lines[1])
+            expectParallel(second, first)
+        })
+    })
+
+    describe('藏头诗', () => {
+        it('各行应该依次以藏头字开头', () => {
+            for (const seed of [1, 2, 3]) {
+                const poem = engine.generatePoetry({
+                    style: 'quiet',
+                    paragraphCount: 1,
+                    linesPerParagraph: 4,
+                    useRhyme: true,
+                    acrostic: '春夏秋冬',
+                    seed,
+                })
+
+                expect(poem.lines.map((line) => line[0])).toEqual(['春', '夏', '秋', '冬'])
+                expect(poem.acrostic?.map((item) => item.character)).toEqual(['春', '夏', '秋', '冬'])
+                expect(poem.acrostic?.every((item) => item.exact)).toBe(true)
+            }
+        })
+
+        it('藏头文字中的标点应该被忽略，字数少于行数时其余行不藏头', () => {
+            const poem = engine.generatePoetry({
+                style: 'bold',
+                paragraphCount: 2,
+                linesPerParagraph: 2,
+                useRhyme: false,
+                acrostic: '风，花',
+                seed: 5,
+            })
+
+            expect(poem.lines[0][0]).toBe('风')
+            expect(poem.lines[1][0]).toBe('花')
+            expect(poem.acrostic?.map((item) => item.lineIndex)).toEqual([0, 1])
+        })
+
+        it('找不到以藏头字开头的句型时应该在句首加字', () => {
+            const poem = engine.generatePoetry({
+                style: 'bold',
+                paragraphCount: 1,
+                linesPerParagraph: 2,
+                useRhyme: false,
+                acrostic: '龘春',
+                seed: 9,
+                explain: true,
+            })
+
+            expect(poem.lines[0].startsWith('龘，')).toBe(true)
+            expect(poem.acrostic?.[0]).toEqual({ lineIndex: 0, character: '龘', exact: false })
+            expect(poem.trace?.[0].structure.prefix).toBe('龘，')
+            expect(poem.acrostic?.[1].exact).toBe(true)
+        })
+
+        it('藏头的格律诗每行仍应该符合字数', () => {
+            for (const seed of [1, 2, 3]) {
+                const poem = engine.generatePoetry({
+                    style: 'bold',
+                    paragraphCount: 1,
+                    linesPerParagraph: 4,
+                    useRhyme: true,
+                    form: 'qijue',
+                    acrostic: '山高龘远',
+                    seed,
+                })
+
+                expect(poem.lines.map((line) => line[0])).toEqual(['山', '高', '龘', '远'])
+                for (const line of poem.lines) {
+                    expect(FormPlanner.countCharacters(line), line).toBe(7)
+                }
+            }
+        })
+
+        it('重写藏头的行时应该保留藏头字', () => {
+            const poem = engine.generatePoetry({
+                style: 'quiet',
+                paragraphCount: 1,
+                linesPerParagraph: 4,
+                useRhyme: false,
+                acrostic: '春夏秋冬',
+                seed: 77,
+                explain: true,
+            })
+
+            const rewritten = engine.regenerateSlot(engine.regenerateLine(poem, 2), 2, 0)
+            expect(rewritten.lines[2][0]).toBe('秋')
+            expect(rewritten.acrostic?.[2].character).toBe('秋')
+        })
+
+        it('藏头字数超过行数时应该报错', () => {
+            expect(() =>
+                engine.generatePoetry({
+                    style: 'bold',
+                    paragraphCount: 1,
+                    linesPerParagraph: 2,
+                    useRhyme: false,
+                    acrostic: '春夏秋',
+                })
+            ).toThrow('藏头文字的字数超过了诗的行数')
+        })
+    })
+
+    describe('必用词', () => {
+        it('必用词应该出现在诗中并分散在各段', () => {
+            for (const seed of [1, 2, 3]) {
+                const poem = engine.generatePoetry({
+                    style: 'bold',
+                    paragraphCount: 2,
+                    linesPerParagraph: 4,
+                    useRhyme: true,
+                    mustInclude: [{ word: '月亮' }, { word: '旷野' }],
+                    seed,
+                })
+
+                const [moon, wilderness] = poem.requiredWords ?? []
+                expect(poem.lines[moon.lineIndex ?? -1]).toContain('月亮')
+                expect(poem.lines[wilderness.lineIndex ?? -1]).toContain('旷野')
+                expect(moon.partOfSpeech).toMatch(/^M/)
+                // 两个词分别从两段开始寻找词槽
+                expect(Math.floor((moon.lineIndex ?? 0) / 4)).not.toBe(Math.floor((wilderness.lineIndex ?? 0) / 4))
+            }
+        })
+
+        it('放不下或查不到的词应该列出原因', () => {
+            const poem = engine.generatePoetry({
+                style: 'quiet',
+                paragraphCount: 1,
+                linesPerParagraph: 4,
+                useRhyme: false,
+                form: 'wujue',
+                // 六个字的词放不进五言诗
+                mustInclude: [{ word: '乌有之词' }, { word: '子虚乌有之词', partOfSpeech: 'MM' }],
+                seed: 3,
+            })
+
+            expect(poem.requiredWords).toEqual([
+                { word: '乌有之词', reason: '词库中没有这个词，请指定词性' },
+                { word: '子虚乌有之词', reason: '没有可以填入的词槽' },
+            ])
+            for (const line of poem.lines) {
+                expect(FormPlanner.countCharacters(line), line).toBe(5)
+            }
+        })
+
+        it('指定词性的新词应该能填入诗中', () => {
+            const poem = engine.generatePoetry({
+                style: 'bold',
+                paragraphCount: 1,
+                linesPerParagraph: 4,
+                useRhyme: false,
+                mustInclude: [{ word: '乌有之词', partOfSpeech: 'MM' }],
+                seed: 6,
+            })
+
+            const [placement] = poem.requiredWords ?? []
+            expect(placement.partOfSpeech).toBe('MM')
+            expect(poem.lines[placement.lineIndex ?? -1]).toContain('乌有之词')
+        })
+
+        it('格律诗中的必用词应该不破坏字数', () => {
+            const poem = engine.generatePoetry({
+                style: 'bold',
+                paragraphCount: 1,
+                linesPerParagraph: 4,
+                useRhyme: true,
+                form: 'qijue',
+                mustInclude: [{ word: '月亮' }, { word: '长城' }],
+                seed: 12,
+            })
+
+            for (const line of poem.lines) {
+                expect(FormPlanner.countCharacters(line), line).toBe(7)
+            }
+            for (const placement of poem.requiredWords ?? []) {
+                expect(poem.lines[placement.lineIndex ?? -1]).toContain(placement.word)
+            }
+        })
+
+        it('重写含必用词的行时应该保留必用词', () => {
+            const poem = engine.generatePoetry({
+                style: 'quiet',
+                paragraphCount: 1,
+                linesPerParagraph: 4,
+                useRhyme: false,
+                mustInclude: [{ word: '月亮' }],
+                seed: 21,
+                explain: true,
+            })
+            const [{ lineIndex }] = poem.requiredWords ?? []
+
+            const rewritten = engine.regenerateLine(poem, lineIndex ?? 0)
+            const [placement] = rewritten.requiredWords ?? []
+            expect(rewritten.lines[placement.lineIndex ?? -1]).toContain('月亮')
+        })
+    })
+
+    describe('风格配置', () => {
+        /** 句型库中句型的元素个数 */
+        const structureLength = (sourceIndex: number | undefined) => {
+            const { elements } = dataService.getSentenceStructures()[sourceIndex ?? 0]
+            return elements.indexOf('') === -1 ? elements.length : elements.indexOf('')
+        }
+
+        it('宁静风格应该只用不超过9个元素的句型', () => {
+            const poem = engine.generatePoetry({
+                style: 'quiet',
+                paragraphCount: 2,
+                linesPerParagraph: 6,
+                useRhyme: false,
+                seed: 99,
+                explain: true,
+            })
+
+            for (const lineTrace of poem.trace ?? []) {
+                expect(structureLength(lineTrace.structureIndex)).toBeLessThanOrEqual(9)
+            }
+        })
+
+        it('自定义风格应该限定句型长度并按权重挑选句型', () => {
+            const poem = engine.generatePoetry({
+                style: {
+                    name: '长句',
+                    structureLength: { min: 10 },
+                    interjectionWeight: 0,
+                    interjectionProbability: 0,
+                },
+                paragraphCount: 2,
+                linesPerParagraph: 6,
+                useRhyme: false,
+                seed: 5,
+                explain: true,
+            })
+
+            for (const lineTrace of poem.trace ?? []) {
+                expect(structureLength(lineTrace.structureIndex)).toBeGreaterThanOrEqual(10)
+                expect(lineTrace.structure.elements).not.toContain('TT')
+            }
+        })
+
+        it('名词类别权重应该影响选词', () => {
+            const poem = engine.generatePoetry({
+                style: { name: '星空', nounClassWeights: { 天文: 1000 } },
+                paragraphCount: 1,
+                linesPerParagraph: 8,
+                useRhyme: false,
+                seed: 17,
+                explain: true,
+            })
+
+            const nounSlots = (poem.trace ?? []).flatMap((lineTrace) =>
+                lineTrace.slots.filter((slot) => slot.selection.lexicon === 'nouns')
+            )
+            const astronomy = nounSlots.filter((slot) => slot.selection.record?.class === '天文')
+            expect(astronomy.length).toBeGreaterThan(nounSlots.length / 2)
+        })
+    })
+
+    describe('押韵规则', () => {
+        it('押韵行中复合结构数所指的词应该与词库中的韵母一致，其余词不受约束', () => {
+            const nouns = dataService.getNouns()
+
+            for (let seed = 1; seed <= 20; seed++) {
+                const poem = engine.generatePoetry({
+                    style: 'bold',
+                    paragraphCount: 1,
+                    linesPerParagraph: 4,
+                    useRhyme: true,
+                    rhymeScheme: 'ang',
+                    seed,
+                    explain: true,
+                })
+
+                for (const lineTrace of poem.trace ?? []) {
+                    const rhymeSlots = lineTrace.slots.filter((slot) => slot.needsRhyme)
+
+                    if (!lineTrace.structure.needsRhyme) {
+                        expect(rhymeSlots).toHaveLength(0)
+                        continue
+                    }
+
+                    // 复合结构数为0的句型句尾固定，没有押韵词槽
+                    const { compoundStructureCount } = lineTrace.structure
+                    if (compoundStructureCount === 0) {
+                        expect(rhymeSlots).toHaveLength(0)
+                        continue
+                    }
+
+                    // 只有复合结构数所指的词需要押韵，押韵行在这个词之后结束
+                    expect(rhymeSlots).toEqual(lineTrace.slots.slice(-1))
+                    expect(rhymeSlots[0].elementIndex).toBe(compoundStructureCount - 1)
+                    for (const slot of lineTrace.slots.slice(0, -1)) {
+                        expect(slot.selection.rhymeStatus).toBe('none')
+                    }
+
+                    const [rhymeSlot] = rhymeSlots
+                    if (rhymeSlot.selection.rhymeStatus === 'applied') {
+                        expect(rhymeSlot.selection.record?.vowel).toBe('ang')
+                        if (rhymeSlot.selection.lexicon === 'nouns') {
+                            const record = nouns.find((noun) => noun.word === rhymeSlot.selection.text)
+                            expect(record?.vowel).toBe('ang')
+                        }
+                    } else {
+                        // 只有不参与押韵的词性才会回退
+                        expect(['DI', 'DO', 'SS']).toContain(rhymeSlot.partOfSpeech)
+                    }
+                }
+            }
+        })
+
+        it('应该按段内位置决定哪些行押韵', () => {
+            const poem = engine.generatePoetry({
+                style: 'quiet',
+                paragraphCount: 2,
+                linesPerParagraph: 4,
+                useRhyme: true,
+                rhymeScheme: 'an',
+                seed: 7,
+                explain: true,
+            })
+
+            const rhymingLines = poem.trace?.map((lineTrace) => lineTrace.structure.needsRhyme)
+            // 偶数行的段落：第1行和偶数行押韵
+            expect(rhymingLines).toEqual([true, true, false, true, true, true, false, true])
+        })
+    })
+
+    describe('押韵格式', () => {
+        it('应该在诗歌上记录押韵方案，并按方案逐行押韵', () => {
+            const poem = engine.generatePoetry({
+                style: 'bold',
+                paragraphCount: 2,
+                linesPerParagraph: 4,
+                useRhyme: true,
+                rhymePattern: 'ABAB',
+                rhymeChange: true,
+                seed: 11,
+                explain: true,
+            })
+
+            expect(poem.rhymePlan?.pattern).toBe('ABAB')
+            expect(poem.rhymePlan?.stanzaRhymes).toHaveLength(2)
+            poem.trace?.forEach((lineTrace, index) => {
+                const rhymeScheme = poem.rhymePlan?.lineRhymes[index]
+                expect(lineTrace.structure.rhymeScheme).toBe(rhymeScheme)
+
+                const [rhymeSlot] = lineTrace.slots.slice(-1)
+                if (rhymeSlot.selection.rhymeStatus === 'applied') {
+                    expect(rhymeSlot.selection.record?.vowel).toBe(rhymeScheme)
+                }
+            })
+        })
+
+        it('不押韵时不应该生成押韵方案', () => {
+            const poem = engine.generatePoetry({
+                style: 'bold',
+                paragraphCount: 1,
+                linesPerParagraph: 2,
+                useRhyme: false,
+            })
+
+            expect(poem.rhymePlan).toBeUndefined()
+        })
+    })
+
+    describe('局部重写', () => {
+        const options: PoetryGenerationOptions = {
+            style: 'bold',
+            paragraphCount: 2,
+            linesPerParagraph: 3,
+            useRhyme: false,
+            seed: 4,
+            explain: true,
+        }
+
+        it('应该能够重写单行而保持其他诗句不变', () => {
+            const poem = engine.generatePoetry(options)
+            const revised = engine.regenerateLine(poem, 4)
+
+            expect(revised.lines).toHaveLength(poem.lines.length)
+            revised.lines.forEach((line, index) => {
+                if (index !== 4) {
+                    expect(line).toBe(poem.lines[index])
+                }
+            })
+            expect(revised.trace?.[4].slots.length).toBeGreaterThan(0)
+            // 原诗歌不应被修改
+            expect(engine.generatePoetry(options).lines).toEqual(poem.lines)
+        })
+
+        it('应该能够只替换一个词槽而保持句型和其他词不变', () => {
+            const poem = engine.generatePoetry(options)
+            const lineTrace = poem.trace?.[0]
+            expect(lineTrace).toBeDefined()
+            if (!lineTrace) return
+
+            const revised = engine.regenerateSlot(poem, 0, 0)
+            const revisedTrace = revised.trace?.[0]
+
+            expect(revisedTrace?.structure).toBe(lineTrace.structure)
+            expect(revisedTrace?.slots[0].partOfSpeech).toBe(lineTrace.slots[0].partOfSpeech)
+            revisedTrace?.slots.slice(1).forEach((slot, index) => {
+                expect(slot.selection).toBe(lineTrace.slots[index + 1].selection)
+            })
+            for (const slot of revisedTrace?.slots ?? []) {
+                expect(revised.lines[0]).toContain(slot.selection.text)
+            }
+            expect(revised.lines.slice(1)).toEqual(poem.lines.slice(1))
+        })
+
+        it('缺少生成轨迹或行号无效时应该抛出错误', () => {
+            const poem = engine.generatePoetry(options)
+            const withoutTrace = engine.generatePoetry({ ...options, explain: false })
+
+            expect(() => engine.regenerateLine(withoutTrace, 0)).toThrow('缺少生成轨迹')
+            expect(() => engine.regenerateLine(poem, 6)).toThrow('行号超出范围')
+            expect(() => engine.regenerateSlot(poem, 0, 99)).toThrow('没有第100个词槽')
+        })
+    })
+
+    describe('自动拟题', () => {
+        it('标题应该取自诗中的名词', () => {
+            const poem = engine.generatePoetry({
+                style: 'bold',
+                paragraphCount: 1,
+                linesPerParagraph: 4,
+                useRhyme: false,
+                seed: 2024,
+            })
+            const nouns = new Set(dataService.getNouns().map((noun) => noun.word))
+            const poemNouns = (poem.words ?? []).filter((word) => nouns.has(word))
+
+            const title = engine.generateTitle(poem)
+            expect(
+                poemNouns.some((noun) => title.includes(noun)),
+                title
+            ).toBe(true)
+        })
+    })
+
     describe('诗歌保存功能', () => {
         it('应该能够生成保存格式的内容', async () => {
             const options: PoetryGenerationOptions = {
@@ -200,6 +985,75 @@ describe('PoetryEngine', () => {
             expect(uniquePoems.size).toBeGreaterThan(1)
         })
 
+        it('相同种子和参数应该生成相同的诗歌', () => {
+            const options: PoetryGenerationOptions = {
+                style: 'quiet',
+                paragraphCount: 2,
+                linesPerParagraph: 4,
+                useRhyme: true,
+                rhymeScheme: 'ang',
+                seed: 20020404,
+            }
+
+            const first = engine.generatePoetry(options)
+            const second = new PoetryEngine({ data: DataService.fromDirectory() }).generatePoetry(options)
+
+            expect(first.seed).toBe(20020404)
+            expect(second.lines).toEqual(first.lines)
+        })
+
+        it('使用不同数据的引擎应该可以并存，互不影响', () => {
+            const options: PoetryGenerationOptions = {
+                style: 'bold',
+                paragraphCount: 1,
+                linesPerParagraph: 4,
+                useRhyme: false,
+                repeatCooldown: 0,
+                seed: 5,
+            }
+            const experimental = DataService.fromDirectory()
+            const [noun] = experimental.getNouns()
+            vi.spyOn(experimental, 'getNouns').mockReturnValue([noun])
+
+            const experimentalWords = new PoetryEngine({ data: experimental }).generatePoetry(options).words ?? []
+            const words = engine.generatePoetry(options).words ?? []
+
+            const nouns = new Set(dataService.getNouns().map((record) => record.word))
+            expect(experimentalWords.filter((word) => nouns.has(word))).toEqual(
+                experimentalWords.filter((word) => word === noun.word)
+            )
+            expect(new Set(words.filter((word) => nouns.has(word))).size).toBeGreaterThan(1)
+        })
+
+        it('未指定种子时应该记录实际使用的种子，并可据此复现', () => {
+            const options: PoetryGenerationOptions = {
+                style: 'bold',
+                paragraphCount: 1,
+                linesPerParagraph: 3,
+                useRhyme: false,
+            }
+
+            const poem = engine.generatePoetry(options)
+            expect(Number.isInteger(poem.seed)).toBe(true)
+
+            const replayed = engine.generatePoetry({ ...options, seed: poem.seed })
+            expect(replayed.lines).toEqual(poem.lines)
+        })
+
+        it('超出 32 位的种子应该记录实际使用的种子', () => {
+            const options: PoetryGenerationOptions = {
+                style: 'bold',
+                paragraphCount: 1,
+                linesPerParagraph: 3,
+                useRhyme: false,
+            }
+
+            const poem = engine.generatePoetry({ ...options, seed: 2 ** 32 + 5 })
+            expect(poem.seed).toBe(5)
+            expect(engine.generatePoetry({ ...options, seed: 5 }).lines).toEqual(poem.lines)
+            expect(engine.generatePoetry({ ...options, seed: -1 }).seed).toBe(2 ** 32 - 1)
+        })
+
         it('生成的诗歌应该符合基本的中文格式', () => {
             const options: PoetryGenerationOptions = {
                 style: 'bold',
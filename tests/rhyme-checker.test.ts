@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { DataService } from '@/services/data-service'
+import { RhymeChecker } from '@/services/rhyme-checker'
+
+describe('RhymeChecker', () => {
+    let dataService: DataService
+    let checker: RhymeChecker
+
+    beforeEach(() => {
+        dataService = DataService.fromDirectory()
+        checker = new RhymeChecker(dataService)
+    })
+
+    describe('句末词', () => {
+        it('应该取词库中与句尾匹配的最长的词，并去掉标点', () => {
+            expect(checker.findEndingWord('我看见西奈旷野！')).toEqual({
+                word: '西奈旷野',
+                vowels: ['ie'],
+                lexicons: ['nouns'],
+            })
+        })
+
+        it('应该跳过句尾的语气词', () => {
+            const ending = checker.findEndingWord('我们是太阳啊……')
+            expect(ending?.word).toBe('太阳')
+            expect(ending?.particle).toBe('啊')
+
+            // 不跳过语气词时，句尾的「啊」本身就是句末词
+            expect(checker.findEndingWord('我们是太阳啊……', false)?.word).toBe('啊')
+        })
+
+        it('分开的动词应该按后半截查找', () => {
+            expect(checker.findEndingWord('骑着马')?.vowels).toContain('a')
+        })
+
+        it('句尾不是词库中的词时返回 null', () => {
+            expect(checker.findEndingWord('的的的')).toBeNull()
+        })
+    })
+
+    describe('检查押韵', () => {
+        it('应该按押韵格式找出不押韵的行并给出同一词库的替换建议', () => {
+            const result = checker.check('我看见月亮\n你是大风！\n我们是太阳啊……\n月光', { pattern: 'AAA-' })
+
+            expect(result.stanzaRhymes).toEqual([{ A: 'ang' }])
+            expect(result.lines.map((line) => line.status)).toEqual(['rhymed', 'broken', 'rhymed', 'unrhymed'])
+
+            const broken = result.lines[1]
+            expect(broken).toMatchObject({ word: '大风', vowels: ['eng'], letter: 'A', expectedRhyme: 'ang' })
+            expect(broken.suggestions.length).toBeGreaterThan(0)
+            expect(broken.suggestions.length).toBeLessThanOrEqual(5)
+            const nouns = dataService.getNouns()
+            for (const suggestion of broken.suggestions) {
+                expect(nouns.some((record) => record.word === suggestion && record.vowel === 'ang')).toBe(true)
+            }
+        })
+
+        it('段落之间以空行分隔，各段分别定韵', () => {
+            const result = checker.check('月亮\n太阳\n\n骑着马\n哈哈\n', { pattern: 'AA' })
+
+            expect(result.stanzaRhymes).toEqual([{ A: 'ang' }, { A: 'a' }])
+            expect(result.lines.map((line) => [line.lineIndex, line.stanzaIndex])).toEqual([
+                [0, 0],
+                [1, 0],
+                [2, 1],
+                [3, 1],
+            ])
+        })
+
+        it('可以指定第一组押韵句的韵，并限制替换建议数', () => {
+            const result = checker.check('月亮\n太阳', { pattern: 'AA', rhymeScheme: 'a', maxSuggestions: 2 })
+
+            expect(result.lines.map((line) => line.status)).toEqual(['broken', 'broken'])
+            expect(result.lines[0].suggestions).toHaveLength(2)
+        })
+
+        it('句末词不在词库中的押韵行应该标记为未知', () => {
+            const result = checker.check('月亮\n的的的', { pattern: 'AA' })
+
+            expect(result.lines[1]).toMatchObject({ status: 'unknown', vowels: [], suggestions: [] })
+            expect(result.lines[1].word).toBeUndefined()
+        })
+    })
+})
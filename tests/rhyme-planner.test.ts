@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { DataService } from '@/services/data-service'
+import { SeededRandom } from '@/services/random-source'
+import { RhymePlanner } from '@/services/rhyme-planner'
+import type { PoetryGenerationOptions } from '@/types'
+
+describe('RhymePlanner', () => {
+    let rhymePlanner: RhymePlanner
+
+    beforeEach(() => {
+        rhymePlanner = new RhymePlanner(DataService.fromDirectory(), new SeededRandom(1))
+    })
+
+    describe('押韵格式解析', () => {
+        it('未指定格式时应该沿用原程序的规则', () => {
+            expect(RhymePlanner.parsePattern(undefined, 4).join('')).toBe('AA-A')
+            expect(RhymePlanner.parsePattern('', 5).join('')).toBe('A-A-A')
+        })
+
+        it('应该支持内置格式和自定义字母串', () => {
+            expect(RhymePlanner.parsePattern('AABB', 4).join('')).toBe('AABB')
+            expect(RhymePlanner.parsePattern('monorhyme', 3).join('')).toBe('AAA')
+            expect(RhymePlanner.parsePattern('abcb', 4).join('')).toBe('ABCB')
+            // 格式短于段落行数时循环使用
+            expect(RhymePlanner.parsePattern('AB', 6).join('')).toBe('ABABAB')
+        })
+
+        it('应该拒绝无效的格式', () => {
+            expect(() => RhymePlanner.parsePattern('A1B2', 4)).toThrow('无效的押韵格式')
+        })
+    })
+
+    describe('韵脚分配', () => {
+        const baseOptions: PoetryGenerationOptions = {
+            style: 'bold',
+            paragraphCount: 3,
+            linesPerParagraph: 4,
+            useRhyme: true,
+        }
+
+        it('只出现一次的字母不应该押韵', () => {
+            const plan = rhymePlanner.planRhymes({ ...baseOptions, rhymePattern: 'ABCB', rhymeScheme: 'ang' })
+
+            expect(plan.pattern).toBe('ABCB')
+            expect(plan.stanzaRhymes[0]).toEqual({ B: 'ang' })
+            expect(plan.lineRhymes.slice(0, 4)).toEqual(['', 'ang', '', 'ang'])
+            expect(plan.lineLetters).toHaveLength(12)
+        })
+
+        it('不换韵时各段应该使用相同的韵脚', () => {
+            const plan = rhymePlanner.planRhymes({ ...baseOptions, rhymePattern: 'AABB', rhymeScheme: 'an' })
+
+            expect(plan.stanzaRhymes[0].A).toBe('an')
+            expect(plan.stanzaRhymes[0].B).not.toBe('an')
+            for (const rhymes of plan.stanzaRhymes) {
+                expect(rhymes).toEqual(plan.stanzaRhymes[0])
+            }
+        })
+
+        it('换韵时每段应该自动选择与上一段不同的韵脚', () => {
+            const plan = rhymePlanner.planRhymes({ ...baseOptions, rhymePattern: 'monorhyme', rhymeChange: true })
+            const availableRhymes = rhymePlanner.getAvailableRhymes()
+
+            plan.stanzaRhymes.forEach((rhymes, index) => {
+                expect(availableRhymes).toContain(rhymes.A)
+                if (index > 0) {
+                    expect(rhymes.A).not.toBe(plan.stanzaRhymes[index - 1].A)
+                }
+            })
+        })
+
+        it('自动选韵时应该排除押韵词过少的韵脚', () => {
+            const availableRhymes = rhymePlanner.getAvailableRhymes()
+
+            expect(availableRhymes).toContain('an')
+            expect(availableRhymes).not.toContain('er')
+        })
+    })
+})
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { SelectionHistory } from '@/services/selection-history'
+import type { LineTrace } from '@/types'
+
+describe('SelectionHistory', () => {
+    describe('冷却行数', () => {
+        it('默认应该回避全诗用过的词汇', () => {
+            const history = new SelectionHistory()
+            history.record(0, '月亮')
+            history.record(5, '星星')
+
+            expect([...history.getUsedWords(10)].sort()).toEqual(['星星', '月亮'])
+        })
+
+        it('应该只回避冷却行数之内用过的词汇', () => {
+            const history = new SelectionHistory(2)
+            history.record(0, '月亮')
+            history.record(1, '星星')
+            history.record(2, '太阳')
+
+            expect([...history.getUsedWords(2)].sort()).toEqual(['太阳', '星星'])
+            // 重写中间的行时，前后的行都要计入
+            expect([...history.getUsedWords(1)].sort()).toEqual(['太阳', '星星', '月亮'])
+        })
+
+        it('冷却行数为0时不应该回避任何词汇', () => {
+            const history = new SelectionHistory(0)
+            history.record(0, '月亮')
+
+            expect(history.getUsedWords(0).size).toBe(0)
+        })
+    })
+
+    describe('记录管理', () => {
+        it('应该能够清除一行或移除一个词汇', () => {
+            const history = new SelectionHistory()
+            history.record(0, '月亮')
+            history.record(0, '月亮')
+            history.record(1, '星星')
+
+            history.forget(0, '月亮')
+            expect(history.getAllWords()).toEqual(['月亮', '星星'])
+
+            history.clearLine(1)
+            expect(history.getAllWords()).toEqual(['月亮'])
+        })
+
+        it('应该忽略空词汇', () => {
+            const history = new SelectionHistory()
+            history.record(0, undefined)
+            history.record(0, '')
+
+            expect(history.getAllWords()).toEqual([])
+        })
+
+        it('应该能够从生成轨迹重建历史', () => {
+            const structure = { compoundStructureCount: 0, punctuation: '', elements: ['MM', 'TT'] }
+            const trace: LineTrace[] = [
+                {
+                    structureIndex: 0,
+                    structure,
+                    slots: [
+                        {
+                            elementIndex: 0,
+                            tag: 'MM',
+                            partOfSpeech: 'MM',
+                            needsRhyme: false,
+                            selection: {
+                                text: '月亮',
+                                lexicon: 'nouns',
+                                record: {
+                                    word: '月亮',
+                                    vowel: 'ang',
+                                    class: '天文',
+                                    property: '',
+                                    liberty: '',
+                                    frequency: 3,
+                                },
+                                rhymeStatus: 'none',
+                            },
+                        },
+                        {
+                            elementIndex: 1,
+                            tag: 'TT',
+                            partOfSpeech: 'TT',
+                            needsRhyme: false,
+                            selection: { text: '', lexicon: 'interjections', rhymeStatus: 'none' },
+                        },
+                    ],
+                },
+            ]
+
+            const history = SelectionHistory.fromTrace(trace, undefined, ['星星'])
+            expect(history.getAllWords()).toEqual(['月亮'])
+            expect(history.archivedWords.has('星星')).toBe(true)
+        })
+    })
+})
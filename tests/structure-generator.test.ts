@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DataService } from '@/services/data-service'
+import { SeededRandom } from '@/services/random-source'
+import { StructureGenerator } from '@/services/structure-generator'
+import type { RhymeScheme, SentenceStructure, StyleProfile, WorkingStructure } from '@/types'
+
+describe('StructureGenerator', () => {
+    let dataService: DataService
+    let structures: SentenceStructure[]
+
+    /** 扩展后仍需选词的词性标记 */
+    const WORD_TAGS = ['MM', 'MC', 'MR', 'XA', 'DD', 'DI', 'DV', 'DO', 'DJ', 'TT']
+
+    /** 按元素文本（以空格分隔）找到句型库中的句型 */
+    const findStructure = (text: string): SentenceStructure => {
+        const structure = structures.find((item) => item.elements.filter(Boolean).join(' ') === text)
+        if (!structure) {
+            throw new Error(`句型库中没有句型: ${text}`)
+        }
+        return structure
+    }
+
+    /** 只用指定句型生成一行的工作结构 */
+    const expand = (
+        structure: SentenceStructure,
+        style: StyleProfile,
+        rhymeScheme: RhymeScheme = '',
+        seed = 1
+    ): WorkingStructure => {
+        vi.spyOn(dataService, 'getSentenceStructures').mockReturnValue([structure])
+        return new StructureGenerator(dataService, new SeededRandom(seed)).createLineStructure(style, rhymeScheme)
+    }
+
+    const elementsOf = (structure: WorkingStructure): string[] => structure.elements.filter(Boolean)
+
+    /** 不做随机扩展的风格 */
+    const plain: StyleProfile = { name: '平实', attributeProbability: 0, interjectionProbability: 0 }
+
+    beforeEach(() => {
+        dataService = DataService.fromDirectory()
+        structures = dataService.getSentenceStructures()
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    describe('复合结构扩展', () => {
+        it('押韵行以「Dd 着」结尾时应该扩展为「DV 着 DO」，不重复「着」', () => {
+            const structure = findStructure('Mm 在 Dd 着')
+
+            for (let seed = 1; seed <= 20; seed++) {
+                const result = expand(structure, plain, 'ang', seed)
+                expect(elementsOf(result)).toEqual(['MM', '在', 'DV', '着', 'DO'])
+                expect(result.compoundStructureCount).toBe(3)
+            }
+        })
+
+        it('不押韵时「Dd 着」可以是简单动词，但「着」只出现一次', () => {
+            const structure = findStructure('一 切 都 在 Dd 着')
+            const verbs = new Set<string>()
+
+            for (let seed = 1; seed <= 30; seed++) {
+                const elements = elementsOf(expand(structure, plain, '', seed))
+                expect(elements.filter((element) => element === '着')).toHaveLength(1)
+                verbs.add(elements[4])
+            }
+            expect([...verbs].sort()).toEqual(['DI', 'DV'])
+        })
+
+        it('「Dd 得」扩展后押韵位置应该仍指向句尾由形容词扩展出的词', () => {
+            const structure = findStructure('MM Dd 得 如 此 XX')
+
+            for (let seed = 1; seed <= 20; seed++) {
+                const result = expand(structure, plain, 'ang', seed)
+                const elements = elementsOf(result)
+                const rhymeElement = elements[result.compoundStructureCount - 1]
+                // 进行时动词自带其后的「着 DO」
+                expect(elements.slice(result.compoundStructureCount)).toEqual(rhymeElement === 'DV' ? ['着', 'DO'] : [])
+                expect(elements).not.toContain('Dd')
+            }
+        })
+
+        it('名词应该按风格的概率扩展出形容词', () => {
+            const structure = findStructure('Mm 在 Dd 着')
+            const attributed = { ...plain, attributeProbability: 1 }
+
+            const result = expand(structure, attributed, 'ang')
+            const elements = elementsOf(result)
+            expect(elements[elements.lastIndexOf('MM') - 1]).toBe('的')
+            expect(elements).not.toContain('XX')
+            // 句首的名词扩展后，押韵位置随之后移
+            expect(result.compoundStructureCount).toBe(elements.indexOf('DV') + 1)
+        })
+    })
+
+    describe('内部需求', () => {
+        it('内部需求为2的句型应该总在句首加叹词', () => {
+            const structure = structures.find((item) => item.internalNeed === 2)
+            expect(structure).toBeDefined()
+
+            for (let seed = 1; seed <= 10; seed++) {
+                const elements = elementsOf(expand(structure as SentenceStructure, plain, '', seed))
+                expect(elements.slice(0, 2)).toEqual(['TT', '，'])
+            }
+        })
+
+        it('内部需求为1的句型应该按风格的概率加叹词，为0的句型不加', () => {
+            const optional = structures.find((item) => item.internalNeed === 1 && item.elements[0] !== 'TT')
+            const never = structures.find((item) => item.internalNeed === 0 && item.elements[0] !== 'TT')
+            const eager = { ...plain, interjectionProbability: 1 }
+
+            expect(elementsOf(expand(optional as SentenceStructure, eager))[0]).toBe('TT')
+            expect(elementsOf(expand(optional as SentenceStructure, plain))[0]).not.toBe('TT')
+            expect(elementsOf(expand(never as SentenceStructure, eager))[0]).not.toBe('TT')
+        })
+    })
+
+    describe('押韵位置', () => {
+        it('句型库中每个句型扩展后，押韵位置都应该指向词槽', () => {
+            const bold = dataService.getStyleProfile('bold')
+
+            for (const structure of structures) {
+                for (let seed = 1; seed <= 3; seed++) {
+                    const result = expand(structure, bold, 'ang', seed)
+                    const elements = elementsOf(result)
+                    if (structure.compoundStructureCount === 0) {
+                        expect(result.compoundStructureCount).toBe(0)
+                    } else {
+                        expect(WORD_TAGS).toContain(elements[result.compoundStructureCount - 1])
+                    }
+                }
+            }
+        })
+    })
+})
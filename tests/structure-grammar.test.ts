@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DataService } from '@/services/data-service'
+import { PoetryEngine } from '@/services/poetry-engine'
+import { SeededRandom } from '@/services/random-source'
+import { convertStructuresToGrammar, GrammarStructureGenerator } from '@/services/structure-grammar'
+import { parseStructureTemplate } from '@/services/structure-template'
+import type { StructureGrammar, StyleProfile, WorkingStructure } from '@/types'
+
+describe('句型文法', () => {
+    /** 不做随机扩展的文法风格 */
+    const styleWith = (grammar: StructureGrammar): StyleProfile => ({
+        name: '文法',
+        attributeProbability: 0,
+        interjectionProbability: 0,
+        grammar,
+    })
+
+    let dataService: DataService
+
+    const expand = (grammar: StructureGrammar, seed = 1): WorkingStructure =>
+        new GrammarStructureGenerator(dataService, new SeededRandom(seed)).createLineStructure(styleWith(grammar))
+
+    const elementsOf = (structure: WorkingStructure): string => structure.elements.filter(Boolean).join(' ')
+
+    beforeEach(() => {
+        dataService = DataService.fromDirectory()
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    describe('展开', () => {
+        it('应该按规则展开句型，可省略的部分时有时无', () => {
+            const grammar = { start: 'S', rules: { S: 'NP在DD！', NP: '[XA的]MM' } }
+            const results = new Set<string>()
+
+            for (let seed = 1; seed <= 30; seed++) {
+                const structure = expand(grammar, seed)
+                expect(structure.punctuation).toBe('！')
+                expect(structure.sourceIndex).toBeUndefined()
+                results.add(elementsOf(structure))
+            }
+
+            expect([...results].sort()).toEqual(['MM 在 DD', 'XA 的 MM 在 DD'])
+        })
+
+        it('单个字母的规则名不应该吞掉以其开头的词性标记', () => {
+            expect(elementsOf(expand({ start: 'S', rules: { S: 'MM在SS！' } }))).toBe('MM 在 SS')
+            expect(elementsOf(expand({ start: 'S', rules: { S: 'M在DD', M: 'MM和TT', D: 'DJ', T: 'XA' } }))).toBe(
+                'MM 和 TT 在 DD'
+            )
+            expect(elementsOf(expand({ start: 'S', rules: { S: 'MMX在DD', MMX: 'XA的MM' } }))).toBe('XA 的 MM 在 DD')
+        })
+
+        it('应该按权重挑选备选', () => {
+            const grammar = { start: 'S', rules: { S: 'MM在DD*9 | DD的MM' } }
+            let weighted = 0
+            for (let seed = 1; seed <= 100; seed++) {
+                if (elementsOf(expand(grammar, seed)) === 'MM 在 DD') {
+                    weighted++
+                }
+            }
+
+            expect(weighted).toBeGreaterThan(75)
+        })
+
+        it('递归的规则应该在最大层数之内展开完毕', () => {
+            const grammar = { start: 'S', rules: { S: 'NP！', NP: 'NP和NP*5 | MM' } }
+
+            for (let seed = 1; seed <= 10; seed++) {
+                const elements = expand(grammar, seed).elements.filter(Boolean)
+                expect(elements.filter((element) => element === 'MM').length).toBeLessThanOrEqual(2 ** 8)
+                expect(new Set(elements)).toEqual(new Set(elements.length > 1 ? ['MM', '和'] : ['MM']))
+            }
+        })
+
+        it('可以引用由句型库生成的 LIBRARY 规则', () => {
+            vi.spyOn(dataService, 'getSentenceStructures').mockReturnValue([
+                parseStructureTemplate('MM在DD！{need:0}'),
+                parseStructureTemplate('XA的MM……{need:0}'),
+            ])
+            const grammar = { start: 'S', rules: { S: 'LIBRARY | MR吧' } }
+            const results = new Set<string>()
+
+            for (let seed = 1; seed <= 30; seed++) {
+                results.add(elementsOf(expand(grammar, seed)))
+            }
+
+            expect([...results].sort()).toEqual(['MM 在 DD', 'MR 吧', 'XA 的 MM'])
+        })
+
+        it('多次展开都不满足风格要求时应该改从句型库中选择', () => {
+            const style = { ...styleWith({ start: 'S', rules: { S: 'MM在DD' } }), structureLength: { min: 4 } }
+            const structures = dataService.getSentenceStructures()
+
+            for (let seed = 1; seed <= 5; seed++) {
+                const generator = new GrammarStructureGenerator(dataService, new SeededRandom(seed))
+                const { sourceIndex } = generator.createLineStructure(style)
+                expect(sourceIndex).toBeDefined()
+                expect(structures[sourceIndex ?? 0].elements.filter(Boolean).length).toBeGreaterThanOrEqual(4)
+            }
+        })
+    })
+
+    describe('错误', () => {
+        const errorOf = (rules: Record<string, string>, start = 'S'): string => {
+            try {
+                expand({ start, rules })
+            } catch (error) {
+                return (error as Error).message
+            }
+            return ''
+        }
+
+        it('应该报告无效的规则名与缺少的起始规则', () => {
+            expect(errorOf({ S: 'MM', MM: 'XA' })).toContain('规则名 MM')
+            expect(errorOf({ S: 'MM', 规则: 'XA' })).toContain('规则名 规则')
+            expect(errorOf({ S: 'MM' }, 'T')).toContain('没有起始规则 T')
+        })
+
+        it('应该报告不配对的括号与无效的权重', () => {
+            expect(errorOf({ S: '[XA的MM在DD' })).toContain('方括号不配对')
+            expect(errorOf({ S: 'XA的]MM' })).toContain('方括号不配对')
+            expect(errorOf({ S: 'MM在DD{rhyme:E' })).toContain('花括号不配对')
+            expect(errorOf({ S: 'MM*0 | DD' })).toContain('权重必须大于0')
+        })
+
+        it('应该报告无法展开完毕的规则', () => {
+            expect(errorOf({ S: 'MM | A', A: 'A在MM' })).toContain('规则 A 只能无限递归')
+
+            const chain = Object.fromEntries(
+                Array.from({ length: 11 }, (_, i) => [i === 0 ? 'S' : `R${i}`, i === 10 ? 'MM' : `R${i + 1}`])
+            )
+            expect(errorOf(chain)).toContain('无法在 10 层之内展开完毕')
+        })
+
+        it('字段不在模板末尾时应该在解析文法时报错', () => {
+            expect(errorOf({ S: 'MM{need:1}在DD' })).toContain('规则 S：「MM{need:1}在DD」中的字段只能写在末尾')
+            expect(errorOf({ S: 'NP在DD', NP: 'MM{need:1}' })).toContain('规则 S：「NP在DD」中的字段只能写在末尾')
+            expect(errorOf({ S: '[LIBRARY]MM' })).toContain('中的字段只能写在末尾')
+            expect(errorOf({ S: 'NP{need:1}', NP: 'MM | DD{need:0}' })).toContain('中的字段只能写在末尾')
+
+            expect(elementsOf(expand({ start: 'S', rules: { S: 'DD[NP]', NP: 'MM！{need:1}' } }))).toMatch(/^DD/)
+        })
+
+        it('未定义的规则应该按词性标记解析并报错', () => {
+            expect(errorOf({ S: 'NOUN在DD' })).toContain('未知的词性标记 NO')
+        })
+    })
+
+    describe('句型库转换', () => {
+        it('句型库转换成的文法应该包含每个句型，相同的句型合并权重', () => {
+            const structures = dataService.getSentenceStructures()
+            const grammar = convertStructuresToGrammar(structures)
+
+            expect(grammar.start).toBe('S')
+            let total = 0
+            for (const alternative of grammar.rules.S.split(' | ')) {
+                const [, template, weight] = alternative.match(/^(.*?)(?:\*(\d+))?$/) ?? []
+                parseStructureTemplate(template)
+                total += Number(weight ?? 1)
+            }
+            expect(total).toBe(structures.length)
+        })
+    })
+
+    describe('引擎', () => {
+        it('风格配置了文法时每行都应该由文法生成', () => {
+            const engine = new PoetryEngine({ data: dataService, logger: { info: () => {}, warn: () => {} } })
+            const poem = engine.generatePoetry({
+                style: styleWith({ start: 'S', rules: { S: 'NP在DJ着MM！', NP: '[XA的]MM' } }),
+                paragraphCount: 1,
+                linesPerParagraph: 4,
+                useRhyme: false,
+                seed: 8,
+                explain: true,
+            })
+
+            expect(poem.lines).toHaveLength(4)
+            for (const [index, line] of poem.lines.entries()) {
+                expect(line).toMatch(/在.+着.+！$/)
+                expect(poem.trace?.[index].structureIndex).toBe(-1)
+            }
+        })
+    })
+})
@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { DataService } from '@/services/data-service'
+import { StructureInferrer } from '@/services/structure-inferrer'
+import type { InferredSegment } from '@/types'
+
+describe('StructureInferrer', () => {
+    let inferrer: StructureInferrer
+
+    /** 把分词结果写成「词/词性」的形式 */
+    const wordsOf = (segments: InferredSegment[]): string =>
+        segments
+            .map((segment) => (segment.partOfSpeech ? `${segment.text}/${segment.partOfSpeech}` : segment.text))
+            .join(' ')
+
+    beforeEach(() => {
+        inferrer = new StructureInferrer(DataService.fromDirectory())
+    })
+
+    describe('分词', () => {
+        it('应该按正向最大匹配切分，名词按属性细分', () => {
+            const segments = inferrer.segment('我的西奈旷野啊')
+
+            // 「西奈旷野」是地名，优先于较短的「旷野」
+            expect(wordsOf(segments)).toBe('我/MR 的 西奈旷野/MC 啊')
+            expect(segments[2].lexicon).toBe('nouns')
+        })
+
+        it('叹词只在句首识别，动词去掉分隔符后匹配', () => {
+            expect(wordsOf(inferrer.segment('天啊，你在骑马！'))).toBe('天啊/TT ， 你/MR 在 骑马/DD ！')
+        })
+
+        it('应该把半角标点换为全角并忽略空白', () => {
+            expect(wordsOf(inferrer.segment('你 在 骑马!'))).toBe('你/MR 在 骑马/DD ！')
+        })
+    })
+
+    describe('推断句型', () => {
+        it('应该由例句推断句型，句尾的标点即为句型的标点', () => {
+            const { structure, template } = inferrer.infer('我的西奈旷野啊')
+
+            expect(template).toBe('MR的MC啊')
+            expect(structure).toEqual({
+                internalNeed: 1,
+                limitedRhyme: '',
+                compoundStructureCount: 3,
+                punctuation: '',
+                elements: ['MR', '的', 'MC', '啊'],
+            })
+        })
+
+        it('句首为叹词时不再加叹词', () => {
+            const { structure, template } = inferrer.infer('天啊，你在骑马！')
+
+            expect(template).toBe('TT，MR在DD！{need:0}')
+            expect(structure.internalNeed).toBe(0)
+            expect(structure.punctuation).toBe('！')
+        })
+
+        it('无法推断时应该报错', () => {
+            expect(() => inferrer.infer('的了吗')).toThrow('例句中没有词库中的词')
+            expect(() => inferrer.infer('我的hello')).toThrow('字母')
+        })
+    })
+})
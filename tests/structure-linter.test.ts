@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { DataService } from '@/services/data-service'
+import { StructureLinter } from '@/services/structure-linter'
+import type { SentenceStructure } from '@/types'
+
+describe('StructureLinter', () => {
+    let linter: StructureLinter
+
+    /** 构造句型，未指定的字段取句型库中最常见的值 */
+    const structureWith = (fields: Partial<SentenceStructure>): SentenceStructure => ({
+        internalNeed: 1,
+        limitedRhyme: '',
+        compoundStructureCount: 3,
+        punctuation: '！',
+        elements: ['MM', '在', 'DD', '', ''],
+        ...fields,
+    })
+
+    const codesOf = (structure: SentenceStructure) =>
+        linter.lintStructure(structure, 'test.json', 0, 27).map((issue) => `${issue.severity}:${issue.code}`)
+
+    beforeEach(() => {
+        linter = new StructureLinter(DataService.fromDirectory())
+    })
+
+    describe('数据文件', () => {
+        it('句型库与工作结构数据应该没有问题，复合结构标记不作提示', () => {
+            expect(linter.lint()).toEqual([])
+        })
+    })
+
+    describe('单个句型', () => {
+        it('有效的句型应该没有问题', () => {
+            expect(codesOf(structureWith({}))).toEqual([])
+            expect(codesOf(structureWith({ elements: ['Mm', '在', 'XX', 'DB', 'Dd', '着'] }))).toEqual([])
+        })
+
+        it('应该报告未知与已过时的词性标记，并指出元素位置', () => {
+            const issues = linter.lintStructure(
+                structureWith({ elements: ['Dv', '在', 'QQ'], compoundStructureCount: 1 }),
+                'test.json',
+                4,
+                27
+            )
+
+            expect(issues).toEqual([
+                {
+                    file: 'test.json',
+                    index: 4,
+                    elementIndex: 0,
+                    severity: 'warning',
+                    code: 'legacy-tag',
+                    message: '已过时的原程序词性标记 Dv',
+                },
+                {
+                    file: 'test.json',
+                    index: 4,
+                    elementIndex: 2,
+                    severity: 'error',
+                    code: 'unknown-tag',
+                    message: '未知的词性标记 QQ',
+                },
+            ])
+        })
+
+        it('应该报告元素中间的空位与超出字段数的元素数组', () => {
+            expect(codesOf(structureWith({ elements: ['MM', '在', 'DD', '', '了'] }))).toEqual(['error:gap'])
+            expect(codesOf(structureWith({ elements: ['MM', '在', 'DD', ...new Array(25).fill('')] }))).toEqual([
+                'warning:too-long',
+            ])
+            expect(codesOf(structureWith({ elements: ['', ''], compoundStructureCount: 0 }))).toEqual(['error:empty'])
+        })
+
+        it('应该报告无效的标点', () => {
+            expect(codesOf(structureWith({ punctuation: '!' }))).toEqual(['error:invalid-punctuation'])
+            expect(codesOf(structureWith({ punctuation: '了！' }))).toEqual(['error:invalid-punctuation'])
+            expect(codesOf(structureWith({ elements: ['MM', ',', 'DD'] }))).toEqual(['error:invalid-punctuation'])
+            expect(codesOf(structureWith({ punctuation: '！”' }))).toEqual([])
+        })
+
+        it('应该报告韵脚以外的限制韵脚', () => {
+            expect(codesOf(structureWith({ limitedRhyme: 'xyz' }))).toEqual(['error:invalid-rhyme'])
+            for (const limitedRhyme of ['', 'E', 'not', 'ang', 'v']) {
+                expect(codesOf(structureWith({ limitedRhyme }))).toEqual([])
+            }
+        })
+
+        it('应该报告无效的复合结构数与内部需求', () => {
+            expect(codesOf(structureWith({ compoundStructureCount: 4 }))).toEqual(['error:invalid-compound-count'])
+            expect(codesOf(structureWith({ compoundStructureCount: 2 }))).toEqual(['warning:invalid-compound-count'])
+            expect(codesOf(structureWith({ internalNeed: 3 }))).toEqual(['error:invalid-internal-need'])
+        })
+    })
+})
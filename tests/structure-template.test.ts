@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { DataService } from '@/services/data-service'
+import { PoetryEngine } from '@/services/poetry-engine'
+import { parseStructureTemplate, stringifyStructureTemplate } from '@/services/structure-template'
+
+describe('句型模板', () => {
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    describe('解析', () => {
+        it('应该把模板解析为句型结构', () => {
+            expect(parseStructureTemplate('TT，XA的MM被DJ得DD！{rhyme:E}')).toEqual({
+                internalNeed: 1,
+                limitedRhyme: 'E',
+                compoundStructureCount: 9,
+                punctuation: '！',
+                elements: ['TT', '，', 'XA', '的', 'MM', '被', 'DJ', '得', 'DD'],
+            })
+        })
+
+        it('应该接受原程序的词性标记，并忽略空白', () => {
+            const structure = parseStructureTemplate('Mm 在 Dd 着 {rhyme:E, need:0}')
+            expect(structure.elements).toEqual(['Mm', '在', 'Dd', '着'])
+            expect(structure.internalNeed).toBe(0)
+            expect(structure.compoundStructureCount).toBe(3)
+            expect(structure.punctuation).toBe('')
+        })
+
+        it('限制韵脚为固定韵母时复合结构数默认为0', () => {
+            const structure = parseStructureTemplate('我的Mm啊！{rhyme:a}')
+            expect(structure.compoundStructureCount).toBe(0)
+            expect(structure.elements).toEqual(['我', '的', 'Mm', '啊'])
+        })
+
+        it('注明标点时句尾的标点应该算作元素', () => {
+            const structure = parseStructureTemplate('我在DJMm……{punct:}')
+            expect(structure.elements).toEqual(['我', '在', 'DJ', 'Mm', '…', '…'])
+            expect(structure.punctuation).toBe('')
+            expect(structure.compoundStructureCount).toBe(4)
+        })
+
+        it('无效的模板应该报错', () => {
+            expect(() => parseStructureTemplate('MM在AB着')).toThrow('未知的词性标记 AB')
+            expect(() => parseStructureTemplate('MM在M')).toThrow('未知的词性标记 M')
+            expect(() => parseStructureTemplate('！')).toThrow('句型中没有任何元素')
+            expect(() => parseStructureTemplate('MM{need:3}')).toThrow('内部需求')
+            expect(() => parseStructureTemplate('MM的XA{cs:5}')).toThrow('超出了元素个数')
+            expect(() => parseStructureTemplate('MM{color:red}')).toThrow('未知的字段')
+            expect(() => parseStructureTemplate('MM{rhyme:E}的XA')).toThrow('花括号只能出现在模板末尾')
+        })
+    })
+
+    describe('写出', () => {
+        it('应该只注明与默认值不同的字段', () => {
+            expect(
+                stringifyStructureTemplate({
+                    internalNeed: 2,
+                    limitedRhyme: 'not',
+                    compoundStructureCount: 0,
+                    punctuation: '！！',
+                    elements: ['TT', '！', 'TT', '', ''],
+                })
+            ).toBe('TT！TT！！{rhyme:not,need:2}')
+        })
+
+        it('含逗号的标点写成模板后应该能原样解析回来', () => {
+            for (const punctuation of ['，', ',', '，……']) {
+                const structure = {
+                    internalNeed: 2,
+                    limitedRhyme: '',
+                    compoundStructureCount: 1,
+                    punctuation,
+                    elements: ['MM', '！'],
+                }
+                const template = stringifyStructureTemplate(structure)
+
+                expect(template).toBe(`MM！${punctuation}{need:2,punct:${punctuation}}`)
+                expect(parseStructureTemplate(template)).toEqual(structure)
+            }
+        })
+
+        it('句型库中的每个句型写成模板后应该能原样解析回来', () => {
+            for (const structure of DataService.fromDirectory().getSentenceStructures()) {
+                const emptyIndex = structure.elements.indexOf('')
+                const elements = structure.elements.slice(0, emptyIndex === -1 ? undefined : emptyIndex)
+
+                expect(parseStructureTemplate(stringifyStructureTemplate(structure))).toEqual({
+                    ...structure,
+                    elements,
+                })
+            }
+        })
+    })
+
+    describe('元素个数', () => {
+        it('超过27个元素的句型也应该能成句', () => {
+            const structure = parseStructureTemplate(`${'MM和'.repeat(15)}MM！{need:0}`)
+            expect(structure.elements.length).toBeGreaterThan(27)
+            const data = DataService.fromDirectory()
+            vi.spyOn(data, 'getSentenceStructures').mockReturnValue([structure])
+
+            const poem = new PoetryEngine({ data, logger: { info: () => {}, warn: () => {} } }).generatePoetry({
+                style: 'bold',
+                paragraphCount: 1,
+                linesPerParagraph: 1,
+                useRhyme: false,
+                seed: 3,
+                explain: true,
+            })
+
+            expect(poem.trace?.[0].slots).toHaveLength(16)
+            expect(poem.lines[0].endsWith('！')).toBe(true)
+        })
+    })
+})
@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { DataService } from '@/services/data-service'
+import { SeededRandom } from '@/services/random-source'
+import { TitleGenerator } from '@/services/title-generator'
+import type { GeneratedPoem } from '@/types'
+
+describe('TitleGenerator', () => {
+    let dataService: DataService
+    let titleGenerator: TitleGenerator
+
+    /** 构造只含用词的诗歌 */
+    const poemWith = (words: string[]): GeneratedPoem => ({
+        lines: [],
+        options: { style: 'quiet', paragraphCount: 1, linesPerParagraph: 4, useRhyme: false },
+        seed: 1,
+        words,
+        createdAt: new Date(),
+    })
+
+    beforeEach(() => {
+        dataService = DataService.fromDirectory()
+        titleGenerator = new TitleGenerator(dataService, new SeededRandom(7))
+    })
+
+    describe('题眼选择', () => {
+        it('应该以出现次数最多的名词为题眼', () => {
+            for (let i = 0; i < 10; i++) {
+                const title = titleGenerator.generateTitle(poemWith(['长城', '月亮', '喝', '月亮']))
+                expect(title).toContain('月亮')
+            }
+        })
+
+        it('诗中没有名词时应该是无题', () => {
+            expect(titleGenerator.generateTitle(poemWith([]))).toBe('无题')
+            expect(titleGenerator.generateTitle(poemWith(['喝', '乌有之词']))).toBe('无题')
+        })
+    })
+
+    describe('标题模板', () => {
+        it('人物名词应该套用人物的模板', () => {
+            const person = dataService.getNouns().find((noun) => noun.property === '人物')?.word ?? ''
+            const titles = new Set(Array.from({ length: 30 }, () => titleGenerator.generateTitle(poemWith([person]))))
+            expect([...titles].sort()).toEqual([person, `致${person}`, `赠${person}`].sort())
+        })
+
+        it('诗中另有时间名词时可以拟作「时间的题眼」', () => {
+            const titles = new Set(
+                Array.from({ length: 50 }, () => titleGenerator.generateTitle(poemWith(['月亮', '月亮', '盛夏'])))
+            )
+            expect(titles.has('盛夏的月亮')).toBe(true)
+            expect([...titles].every((title) => title.includes('月亮'))).toBe(true)
+        })
+    })
+
+    it('相同种子应该拟出相同的标题', () => {
+        const poem = poemWith(['长城', '月亮', '孔子'])
+        const first = new TitleGenerator(dataService, new SeededRandom(42)).generateTitle(poem)
+        const second = new TitleGenerator(dataService, new SeededRandom(42)).generateTitle(poem)
+        expect(first).toBe(second)
+    })
+})
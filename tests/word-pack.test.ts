@@ -0,0 +1,137 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { DataService } from '@/services/data-service'
+import { MemoryDataSource } from '@/services/data-source'
+import { loadWordPack, mergeWordPacks, parseWordPack, readWordPack } from '@/services/word-pack'
+import type { WordRecord } from '@/types'
+
+describe('WordPack', () => {
+    const record = (word: string, fields: Partial<WordRecord> = {}): WordRecord => ({
+        word,
+        vowel: '',
+        class: '',
+        property: '',
+        liberty: '',
+        frequency: null,
+        ...fields,
+    })
+
+    describe('载入', () => {
+        let dir: string
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), 'cyberpoet-pack-'))
+        })
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true })
+        })
+
+        it('目录词汇包按词库的文件名读取词条，包名为目录名，省略的字段应该补全', () => {
+            const packDir = join(dir, 'team')
+            mkdirSync(packDir)
+            writeFileSync(join(packDir, 'nouns.json'), JSON.stringify([{ word: '量子纠缠', vowel: 'an' }]))
+            writeFileSync(join(packDir, 'special-words.json'), JSON.stringify([{ content: '赛博格' }]))
+
+            expect(loadWordPack(packDir)).toEqual({
+                name: 'team',
+                lexicons: {
+                    nouns: [record('量子纠缠', { vowel: 'an' })],
+                    specialWords: [{ content: '赛博格', type: 0 }],
+                },
+            })
+        })
+
+        it('文件词汇包以词库名为键，包名取 name 字段，默认为文件名', () => {
+            const file = join(dir, 'local.json')
+            writeFileSync(file, JSON.stringify({ adjectives: [{ word: '赛博', remove: true }] }))
+            expect(loadWordPack(file)).toEqual({
+                name: 'local',
+                lexicons: { adjectives: [{ ...record('赛博'), remove: true }] },
+            })
+
+            writeFileSync(file, JSON.stringify({ name: '团队词汇', nouns: [] }))
+            expect(loadWordPack(file).name).toBe('团队词汇')
+        })
+
+        it('词汇包不存在或无效时应该报错', () => {
+            expect(() => loadWordPack(join(dir, 'missing.json'))).toThrow('无法加载词汇包')
+            expect(() => parseWordPack([], 'p', 'p')).toThrow('词汇包无效（p）：应为 JSON 对象')
+            expect(() => parseWordPack({ verbs: [] }, 'p', 'p')).toThrow('未知的词库 verbs')
+            expect(() => parseWordPack({ nouns: {} }, 'p', 'p')).toThrow('nouns 应为词条数组')
+            expect(() => parseWordPack({ nouns: [{ vowel: 'a' }] }, 'p', 'p')).toThrow('nouns[0] 缺少词语 word')
+            expect(() => parseWordPack({ nouns: [{ word: '风', vowel: 1 }] }, 'p', 'p')).toThrow('vowel 应为文字')
+            expect(() => parseWordPack({ specialWords: [{ type: 1 }] }, 'p', 'p')).toThrow('缺少特殊词内容 content')
+            expect(() => readWordPack(new MemoryDataSource({ 'nouns.json': '[' }), 'p')).toThrow(
+                '词汇包无效（p）：无法解析 nouns.json'
+            )
+        })
+    })
+
+    describe('合并', () => {
+        const base = [record('月亮', { vowel: 'ang' }), record('大风', { vowel: 'eng' }), record('太阳')]
+
+        it('应该按词覆盖、去掉或追加词条，并记录来源的包名', () => {
+            const pack = parseWordPack(
+                {
+                    nouns: [
+                        { word: '星云', vowel: 'un' },
+                        { word: '大风', vowel: 'eng', frequency: 5 },
+                        { word: '太阳', remove: true },
+                    ],
+                },
+                '团队词汇',
+                'test'
+            )
+
+            expect(mergeWordPacks(base, [pack], 'nouns')).toEqual([
+                record('月亮', { vowel: 'ang' }),
+                record('大风', { vowel: 'eng', frequency: 5, pack: '团队词汇' }),
+                record('星云', { vowel: 'un', pack: '团队词汇' }),
+            ])
+            expect(mergeWordPacks(base, [pack], 'adjectives')).toBe(base)
+        })
+
+        it('多音词应该整体替换，后面的包优先', () => {
+            const first = parseWordPack({ nouns: [{ word: '月亮', vowel: 'iang' }] }, '甲', 'test')
+            const second = parseWordPack(
+                { nouns: [{ word: '月亮', vowel: 'ang' }, { word: '月亮', vowel: 'iang' }, { word: '星云' }] },
+                '乙',
+                'test'
+            )
+            const third = parseWordPack({ nouns: [{ word: '星云', remove: true }] }, '丙', 'test')
+
+            const merged = mergeWordPacks([...base, record('月亮', { vowel: 'ue' })], [first, second, third], 'nouns')
+            expect(merged.map(({ word, vowel, pack }) => [word, vowel, pack])).toEqual([
+                ['月亮', 'ang', '乙'],
+                ['月亮', 'iang', '乙'],
+                ['大风', 'eng', undefined],
+                ['太阳', '', undefined],
+            ])
+        })
+    })
+
+    describe('数据访问层', () => {
+        it('添加的词汇包应该叠加在词库之上，特殊词也带有包名', () => {
+            const dataService = new DataService(
+                new MemoryDataSource({ 'nouns.json': [record('月亮'), record('太阳')], 'special-words.json': [] })
+            )
+            expect(dataService.getNouns()).toHaveLength(2)
+
+            dataService.addWordPack(
+                parseWordPack(
+                    { nouns: [{ word: '月亮', remove: true }], specialWords: [{ content: '赛博格', type: 2 }] },
+                    '团队词汇',
+                    'test'
+                )
+            )
+
+            expect(dataService.getWordPacks().map((pack) => pack.name)).toEqual(['团队词汇'])
+            expect(dataService.getNouns().map((noun) => noun.word)).toEqual(['太阳'])
+            expect(dataService.getSpecialWords()).toEqual([{ content: '赛博格', type: 2, pack: '团队词汇' }])
+            expect(dataService.getWordsByPartOfSpeech('SS')[0]).toMatchObject({ word: '赛博格', pack: '团队词汇' })
+        })
+    })
+})
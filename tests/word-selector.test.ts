@@ -1,14 +1,15 @@
+import { beforeEach, describe, expect, it } from 'vitest'
 import { DataService } from '@/services/data-service'
+import { SeededRandom } from '@/services/random-source'
 import { WordSelector } from '@/services/word-selector'
 import type { WordSelectionContext } from '@/types'
-import { beforeEach, describe, expect, it } from 'vitest'
 
 describe('WordSelector', () => {
     let wordSelector: WordSelector
     let dataService: DataService
 
     beforeEach(() => {
-        dataService = DataService.getInstance()
+        dataService = DataService.fromDirectory()
         wordSelector = new WordSelector(dataService)
     })
 
@@ -194,6 +195,325 @@ describe('WordSelector', () => {
         })
     })
 
+    describe('加权抽样', () => {
+        const sampleNouns = (context: WordSelectionContext, count: number) => {
+            const selector = new WordSelector(dataService, new SeededRandom(2002))
+            const nouns = new Map(dataService.getNouns().map((noun) => [noun.word, noun]))
+            return Array.from({ length: count }, () => nouns.get(selector.selectWord(context)))
+        }
+
+        it('词汇记录应该保留类别、自由度和频率字段', () => {
+            const [firstNoun] = dataService.getNouns()
+            expect(firstNoun).toHaveProperty('class')
+            expect(firstNoun).toHaveProperty('liberty')
+            expect(firstNoun).toHaveProperty('frequency')
+        })
+
+        it('应该更倾向于选择高频词汇', () => {
+            const nouns = dataService.getNouns()
+            const averageFrequency = nouns.reduce((sum, noun) => sum + (noun.frequency ?? 0), 0) / nouns.length
+
+            const picks = sampleNouns({ partOfSpeech: 'MM', needsRhyme: false }, 1000)
+            const pickedAverage = picks.reduce((sum, noun) => sum + (noun?.frequency ?? 0), 0) / picks.length
+
+            expect(pickedAverage).toBeGreaterThan(averageFrequency)
+        })
+
+        it('应该能够按用词倾向偏向基本或文学词汇', () => {
+            const countLiberty = (vocabulary: 'basic' | 'literary', liberty: string) =>
+                sampleNouns({ partOfSpeech: 'MM', needsRhyme: false, vocabulary }, 1000).filter(
+                    (noun) => noun?.liberty === liberty
+                ).length
+
+            expect(countLiberty('literary', '文学')).toBeGreaterThan(countLiberty('basic', '文学'))
+            expect(countLiberty('basic', '基本')).toBeGreaterThan(countLiberty('literary', '基本'))
+        })
+
+        it('应该正确计算抽样权重', () => {
+            const word = {
+                word: '月亮',
+                vowel: 'ang',
+                class: '天文',
+                property: '',
+                liberty: '文学',
+                frequency: 3,
+            }
+
+            expect(WordSelector.getWordWeight(word)).toBe(4)
+            expect(WordSelector.getWordWeight(word, 'literary')).toBe(16)
+            expect(WordSelector.getWordWeight({ ...word, frequency: null }, 'basic')).toBe(1)
+            expect(WordSelector.getWordWeight(word, undefined, ['天文'])).toBe(32)
+            expect(WordSelector.getWordWeight(word, 'literary', ['宗教'])).toBe(16)
+        })
+
+        it('权重为 0 的类别不应该被选中，全部排除时词槽为空', () => {
+            const picks = sampleNouns({ partOfSpeech: 'MM', needsRhyme: false, classWeights: { 天文: 0 } }, 500)
+            expect(picks.every((noun) => noun !== undefined && noun.class !== '天文')).toBe(true)
+
+            const rhymingPicks = sampleNouns(
+                { partOfSpeech: 'MM', needsRhyme: true, rhymeScheme: 'ang', classWeights: { 天文: 0 } },
+                200
+            )
+            expect(rhymingPicks.every((noun) => noun?.class !== '天文')).toBe(true)
+
+            const classWeights = Object.fromEntries(
+                ['', ...dataService.getNounClasses()].map((nounClass) => [nounClass, 0])
+            )
+            const context: WordSelectionContext = { partOfSpeech: 'MM', needsRhyme: false, classWeights }
+            expect(wordSelector.selectWord(context)).toBe('')
+            expect(wordSelector.getAvailableLengths(context)).toEqual([0])
+        })
+
+        it('名词类别的权重不应该影响其他词性', () => {
+            const classWeights = Object.fromEntries(
+                ['', ...dataService.getNounClasses()].map((nounClass) => [nounClass, 0])
+            )
+            for (const partOfSpeech of ['XA', 'DD', 'DJ'] as const) {
+                const context: WordSelectionContext = { partOfSpeech, needsRhyme: false, classWeights }
+                expect(wordSelector.selectWord(context)).not.toBe('')
+                expect(wordSelector.getAvailableLengths(context)).not.toEqual([0])
+            }
+        })
+    })
+
+    describe('主题约束', () => {
+        const sampleNouns = (context: WordSelectionContext, count: number) => {
+            const selector = new WordSelector(dataService, new SeededRandom(404))
+            const nouns = new Map(dataService.getNouns().map((noun) => [noun.word, noun]))
+            return Array.from({ length: count }, () => nouns.get(selector.selectWord(context)))
+        }
+
+        it('应该能够列出名词类别作为主题', () => {
+            const topics = dataService.getNounClasses()
+            expect(topics).toContain('天文')
+            expect(topics).toContain('宗教')
+            expect(topics).not.toContain('')
+        })
+
+        it('偏好模式下应该更多地选择主题名词', () => {
+            const countTopic = (topics?: string[]) =>
+                sampleNouns({ partOfSpeech: 'MM', needsRhyme: false, topics }, 500).filter(
+                    (noun) => noun?.class === '天文'
+                ).length
+
+            expect(countTopic(['天文'])).toBeGreaterThan(countTopic() * 3)
+        })
+
+        it('严格模式下应该只选择主题名词', () => {
+            const picks = sampleNouns(
+                { partOfSpeech: 'MM', needsRhyme: false, topics: ['天文', '宗教'], topicStrictness: 'strict' },
+                200
+            )
+            expect(picks.every((noun) => noun?.class === '天文' || noun?.class === '宗教')).toBe(true)
+        })
+
+        it('严格模式下也应该遵守地点与人物的筛选', () => {
+            const picks = sampleNouns(
+                { partOfSpeech: 'MR', needsRhyme: false, topics: ['宗教'], topicStrictness: 'strict' },
+                100
+            )
+            expect(picks.every((noun) => noun?.class === '宗教')).toBe(true)
+            expect(picks.every((noun) => noun?.property === '人物' || noun?.property === '人名')).toBe(true)
+        })
+
+        it('主题词汇不足时应该回退到整个词库', () => {
+            // 食品类没有人物名词
+            const picks = sampleNouns(
+                { partOfSpeech: 'MR', needsRhyme: false, topics: ['食品'], topicStrictness: 'strict' },
+                50
+            )
+            expect(picks.every((noun) => noun !== undefined)).toBe(true)
+            expect(picks.every((noun) => noun?.property === '人物' || noun?.property === '人名')).toBe(true)
+        })
+
+        it('押韵时应该在押韵词汇中应用主题约束', () => {
+            const selector = new WordSelector(dataService, new SeededRandom(7))
+            for (let i = 0; i < 50; i++) {
+                const selection = selector.selectWordWithDetail({
+                    partOfSpeech: 'MM',
+                    needsRhyme: true,
+                    rhymeScheme: 'ang',
+                    topics: ['天文'],
+                    topicStrictness: 'strict',
+                })
+                expect(selection.rhymeStatus).toBe('applied')
+                expect(selection.record?.vowel).toBe('ang')
+            }
+        })
+
+        it('主题不应该影响非名词词性', () => {
+            const word = wordSelector.selectWord({
+                partOfSpeech: 'XA',
+                needsRhyme: false,
+                topics: ['天文'],
+                topicStrictness: 'strict',
+            })
+            expect(word.length).toBeGreaterThan(0)
+        })
+    })
+
+    describe('避免重复用词', () => {
+        it('应该回避本诗已用过的词汇', () => {
+            const interjections = dataService.getInterjections()
+            const usedWords = new Set(interjections.slice(1).map((word) => word.word))
+
+            const selection = wordSelector.selectWordWithDetail({ partOfSpeech: 'TT', needsRhyme: false, usedWords })
+            expect(selection.record?.word).toBe(interjections[0].word)
+            expect(selection.repeated).toBe(false)
+        })
+
+        it('候选词汇全部用过时应该允许重复并作标记', () => {
+            const usedWords = new Set(dataService.getInterjections().map((word) => word.word))
+
+            const selection = wordSelector.selectWordWithDetail({ partOfSpeech: 'TT', needsRhyme: false, usedWords })
+            expect(selection.text.length).toBeGreaterThan(0)
+            expect(selection.repeated).toBe(true)
+        })
+
+        it('应该尽量回避存档诗中的词汇，不够时放宽', () => {
+            const interjections = dataService.getInterjections()
+            const [first, second] = interjections
+            const archivedWords = new Set(interjections.slice(1).map((word) => word.word))
+
+            expect(
+                wordSelector.selectWordWithDetail({ partOfSpeech: 'TT', needsRhyme: false, archivedWords }).record
+            ).toBe(first)
+
+            // 本诗已用过唯一未存档的词时，只回避本诗中的词
+            const selection = wordSelector.selectWordWithDetail({
+                partOfSpeech: 'TT',
+                needsRhyme: false,
+                usedWords: new Set(interjections.filter((word) => word !== second).map((word) => word.word)),
+                archivedWords,
+            })
+            expect(selection.record).toBe(second)
+            expect(selection.repeated).toBe(false)
+        })
+
+        it('押韵时应该在押韵词汇中回避已用过的词', () => {
+            const rhymingNouns = dataService.getNouns().filter((noun) => noun.vowel === 'er')
+            const [last] = rhymingNouns.slice(-1)
+            const usedWords = new Set(rhymingNouns.filter((noun) => noun !== last).map((noun) => noun.word))
+
+            const selection = wordSelector.selectWordWithDetail({
+                partOfSpeech: 'MM',
+                needsRhyme: true,
+                rhymeScheme: 'er',
+                usedWords,
+            })
+            expect(selection.rhymeStatus).toBe('applied')
+            expect(selection.record).toBe(last)
+        })
+    })
+
+    describe('对仗', () => {
+        it('名词应该与对仗词字数和属性相同', () => {
+            const selector = new WordSelector(dataService, new SeededRandom(12))
+            for (const word of ['孔子', '长城', '月亮']) {
+                const record = dataService.getNouns().find((noun) => noun.word === word)
+                const counterpart = { text: word, lexicon: 'nouns' as const, record, rhymeStatus: 'none' as const }
+
+                for (let i = 0; i < 20; i++) {
+                    const selection = selector.selectWordWithDetail({
+                        partOfSpeech: 'MM',
+                        needsRhyme: false,
+                        counterpart,
+                    })
+                    expect(selection.parallelStatus).toBe('matched')
+                    expect(selection.text).toHaveLength(word.length)
+                    expect(selection.record?.property).toBe(record?.property)
+                }
+            }
+        })
+
+        it('动词应该按填入诗句的文本对齐字数', () => {
+            const counterpart = { text: '骑着马', lexicon: 'intransitiveVerbs' as const, rhymeStatus: 'none' as const }
+            const selection = wordSelector.selectWordWithDetail({ partOfSpeech: 'DV', needsRhyme: false, counterpart })
+
+            expect(selection.parallelStatus).toBe('matched')
+            expect(selection.text).toHaveLength(3)
+            expect(selection.text).toContain('着')
+        })
+
+        it('没有同字数的词汇时应该放宽并标记', () => {
+            const counterpart = {
+                text: '一二三四五六七八九十',
+                lexicon: 'nouns' as const,
+                rhymeStatus: 'none' as const,
+            }
+            const selection = wordSelector.selectWordWithDetail({ partOfSpeech: 'MM', needsRhyme: false, counterpart })
+
+            expect(selection.text.length).toBeGreaterThan(0)
+            expect(selection.parallelStatus).toBe('unmatched')
+        })
+
+        it('不对仗时不应该有对仗状态', () => {
+            const selection = wordSelector.selectWordWithDetail({ partOfSpeech: 'MM', needsRhyme: false })
+            expect(selection.parallelStatus).toBeUndefined()
+        })
+    })
+
+    describe('藏头', () => {
+        it('应该只选择以指定字开头的词汇', () => {
+            for (let i = 0; i < 20; i++) {
+                const word = wordSelector.selectWord({ partOfSpeech: 'MM', needsRhyme: false, initial: '春' })
+                expect(word.startsWith('春'), word).toBe(true)
+            }
+        })
+
+        it('应该列出以指定字开头的词汇的字数', () => {
+            const lengths = wordSelector.getAvailableLengths({ partOfSpeech: 'MM', needsRhyme: false, initial: '春' })
+            expect(lengths.length).toBeGreaterThan(0)
+            expect(lengths.every((length) => length >= 1)).toBe(true)
+        })
+
+        it('没有以指定字开头的词汇时应该报错', () => {
+            expect(wordSelector.getAvailableLengths({ partOfSpeech: 'MM', needsRhyme: false, initial: '龘' })).toEqual(
+                []
+            )
+            expect(() => wordSelector.selectWord({ partOfSpeech: 'MM', needsRhyme: false, initial: '龘' })).toThrow()
+        })
+    })
+
+    describe('必用词', () => {
+        it('应该在词库中查到必用词的词性', () => {
+            const moon = wordSelector.resolveRequiredWord({ word: '月亮' })
+            expect(moon?.record.word).toBe('月亮')
+            expect(moon?.partsOfSpeech).toContain('MM')
+
+            const confucius = wordSelector.resolveRequiredWord({ word: '孔子' })
+            expect(confucius?.partsOfSpeech).toEqual(expect.arrayContaining(['MM', 'MR']))
+            expect(confucius?.partsOfSpeech).not.toContain('MC')
+        })
+
+        it('动词应该能按填入诗句的写法查找', () => {
+            const verb = dataService.getIntransitiveVerbs().find((word) => word.word.includes('/'))
+            const resolved = wordSelector.resolveRequiredWord({ word: verb?.word.replace('/', '') ?? '' })
+
+            expect(resolved?.record).toEqual(verb)
+            expect(resolved?.partsOfSpeech).toEqual(expect.arrayContaining(['DD', 'DV', 'DO']))
+        })
+
+        it('词库中没有的词应该按指定的词性构造，未指定时返回 null', () => {
+            expect(wordSelector.resolveRequiredWord({ word: '乌有之词' })).toBeNull()
+
+            const resolved = wordSelector.resolveRequiredWord({ word: '乌有之词', partOfSpeech: 'MM' })
+            expect(resolved?.record.word).toBe('乌有之词')
+            expect(resolved?.partsOfSpeech).toEqual(['MM'])
+        })
+
+        it('应该直接选用必用词，并按韵脚判断能否填入', () => {
+            const required = dataService.getNouns().find((word) => word.word === '月亮')
+            const selection = wordSelector.selectWordWithDetail({ partOfSpeech: 'MM', needsRhyme: false, required })
+            expect(selection.text).toBe('月亮')
+            expect(selection.record).toBe(required)
+
+            const context = { partOfSpeech: 'MM' as const, needsRhyme: true, required }
+            expect(wordSelector.getAvailableLengths({ ...context, rhymeScheme: 'ang' })).toEqual([2])
+            expect(wordSelector.getAvailableLengths({ ...context, rhymeScheme: 'ou' })).toEqual([])
+        })
+    })
+
     describe('韵脚规范化', () => {
         it('应该正确规范化韵脚', () => {
             expect(WordSelector.normalizeRhymeScheme('o')).toBe('e')
@@ -265,5 +585,20 @@ describe('WordSelector', () => {
             // 应该有多个不同的结果（除非词库非常小）
             expect(results.size).toBeGreaterThan(1)
         })
+
+        it('相同种子的随机数源应该选出相同的词汇序列', () => {
+            const context: WordSelectionContext = {
+                partOfSpeech: 'DV',
+                needsRhyme: false,
+            }
+
+            const pick = (seed: number): string[] => {
+                const selector = new WordSelector(dataService, new SeededRandom(seed))
+                return Array.from({ length: 10 }, () => selector.selectWord(context))
+            }
+
+            expect(pick(42)).toEqual(pick(42))
+            expect(pick(42)).not.toEqual(pick(43))
+        })
     })
 })